@@ -6,8 +6,10 @@
  *
  * Usage:
  *   npm run get-token
+ *   npm run get-token -- <environment>   (e.g. stage, for AEM_STAGE_* variables)
  *
- * Prerequisites – set ALL of these in .env before running:
+ * Prerequisites – set ALL of these in .env before running (for a named
+ * environment, use its prefixed variables, e.g. AEM_STAGE_CLIENT_ID):
  *
  *   AEM_CLIENT_ID      – "Client ID" from Developer Console → your project →
  *                        OAuth Server-to-Server → Credential details
@@ -38,34 +40,41 @@ dotenv.config({ path: envPath });
 
 const IMS_TOKEN_URL = 'https://ims-na1.adobelogin.com/ims/token/v3';
 
-const CLIENT_ID = process.env.AEM_CLIENT_ID;
-const CLIENT_SECRET = process.env.AEM_CLIENT_SECRET;
-const SCOPES = process.env.AEM_SCOPES;
+// Optional environment profile name; selects AEM_<NAME>_* instead of AEM_*
+const ENVIRONMENT = process.argv[2];
+const PREFIX = ENVIRONMENT
+  ? `AEM_${ENVIRONMENT.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`
+  : 'AEM_';
+
+const CLIENT_ID = process.env[`${PREFIX}CLIENT_ID`];
+const CLIENT_SECRET = process.env[`${PREFIX}CLIENT_SECRET`];
+const SCOPES = process.env[`${PREFIX}SCOPES`];
+const TOKEN_VAR = `${PREFIX}ACCESS_TOKEN`;
 
 // ─── Pre-flight checks ────────────────────────────────────────────────────────
 
 if (!CLIENT_ID || !CLIENT_SECRET) {
   console.error(`
-Error: AEM_CLIENT_ID and AEM_CLIENT_SECRET must be set in .env
+Error: ${PREFIX}CLIENT_ID and ${PREFIX}CLIENT_SECRET must be set in .env
 
 Where to find them:
   1. Go to https://developer.adobe.com/console
   2. Open your project → Credentials → OAuth Server-to-Server
-  3. Copy "Client ID" → AEM_CLIENT_ID
-  4. Click "Retrieve client secret" → AEM_CLIENT_SECRET
+  3. Copy "Client ID" → ${PREFIX}CLIENT_ID
+  4. Click "Retrieve client secret" → ${PREFIX}CLIENT_SECRET
 `);
   process.exit(1);
 }
 
 if (!SCOPES) {
   console.error(`
-Error: AEM_SCOPES must be set in .env
+Error: ${PREFIX}SCOPES must be set in .env
 
 Where to find it:
   1. Go to https://developer.adobe.com/console
   2. Open your project → Credentials → OAuth Server-to-Server → Credential details
   3. Copy the exact string from the "Scopes" field (e.g. AdobeID,openid,aem.cloud,...)
-  4. Paste it as: AEM_SCOPES=<that string>
+  4. Paste it as: ${PREFIX}SCOPES=<that string>
 
 Do NOT use generic scope values — the string must match exactly what
 Adobe Developer Console shows for your specific credential.
@@ -130,7 +139,7 @@ Hint (unauthorized_client):
     } else if (errorCode === 'invalid_client') {
       hint = `
 Hint (invalid_client):
-  • Double-check AEM_CLIENT_ID and AEM_CLIENT_SECRET in .env.
+  • Double-check ${PREFIX}CLIENT_ID and ${PREFIX}CLIENT_SECRET in .env.
   • Client secret may have expired — regenerate it in Developer Console.`;
     }
 
@@ -144,19 +153,20 @@ Hint (invalid_client):
 
 function writeTokenToEnv(token: string): void {
   if (!existsSync(envPath)) {
-    writeFileSync(envPath, `AEM_ACCESS_TOKEN=${token}\n`, 'utf-8');
-    console.log('Created .env with AEM_ACCESS_TOKEN');
+    writeFileSync(envPath, `${TOKEN_VAR}=${token}\n`, 'utf-8');
+    console.log(`Created .env with ${TOKEN_VAR}`);
     return;
   }
 
   let contents = readFileSync(envPath, 'utf-8');
+  const pattern = new RegExp(`^${TOKEN_VAR}=.*`, 'm');
 
-  if (/^AEM_ACCESS_TOKEN=.*/m.test(contents)) {
-    contents = contents.replace(/^AEM_ACCESS_TOKEN=.*/m, `AEM_ACCESS_TOKEN=${token}`);
-    console.log('Updated AEM_ACCESS_TOKEN in .env');
+  if (pattern.test(contents)) {
+    contents = contents.replace(pattern, `${TOKEN_VAR}=${token}`);
+    console.log(`Updated ${TOKEN_VAR} in .env`);
   } else {
-    contents += `\nAEM_ACCESS_TOKEN=${token}\n`;
-    console.log('Appended AEM_ACCESS_TOKEN to .env');
+    contents += `\n${TOKEN_VAR}=${token}\n`;
+    console.log(`Appended ${TOKEN_VAR} to .env`);
   }
 
   writeFileSync(envPath, contents, 'utf-8');
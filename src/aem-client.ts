@@ -1,129 +1,235 @@
-import dotenv from 'dotenv';
-import { fileURLToPath } from 'url';
-
-// Load .env from the project root regardless of the process working directory.
-// import.meta.url points to dist/aem-client.js, so ../ is the project root.
-dotenv.config({ path: fileURLToPath(new URL('../.env', import.meta.url)) });
-
-const AEM_AUTH_TYPE = process.env.AEM_AUTH_TYPE ?? 'basic'; // 'basic' | 'token'
-const AEM_USERNAME = process.env.AEM_USERNAME ?? '';
-const AEM_PASSWORD = process.env.AEM_PASSWORD ?? '';
-const AEM_CLIENT_ID = process.env.AEM_CLIENT_ID ?? '';
-const AEM_CLIENT_SECRET = process.env.AEM_CLIENT_SECRET ?? '';
-const AEM_SCOPES = process.env.AEM_SCOPES ?? '';
+import { open, readFile, stat, writeFile } from 'fs/promises';
+import { basename, extname } from 'path';
+import {
+  getEnvironment,
+  envVarName,
+  listEnvironmentNames,
+  getDefaultEnvironmentName,
+  resolveLocalFile,
+  type AemEnvironment,
+} from './environments.js';
+import { AemError, errorDetail, isTransient, requestError, responseError } from './errors.js';
+import { assertOperationAllowed } from './guardrails.js';
+import {
+  toRenditions,
+  toReplicationStatus,
+  toSearchResult,
+  contentFragmentSchema,
+  type ContentFragment,
+  type FragmentFieldValue,
+  type JcrNode,
+  type Rendition,
+  type ReplicationAction,
+  type ReplicationResult,
+  type ReplicationStatus,
+  type SearchResult,
+  type TreeReplicationResult,
+} from './models.js';
 
 const IMS_TOKEN_URL = 'https://ims-na1.adobelogin.com/ims/token/v3';
 
-// Mutable token state — refreshed automatically when expired
-let accessToken: string = process.env.AEM_ACCESS_TOKEN ?? '';
-let tokenExpiresAt: number = 0; // epoch ms; 0 means unknown/expired
+// Granite CSRF tokens are valid for about ten minutes; fetch a new one well before
+const CSRF_TOKEN_TTL_MS = 5 * 60 * 1000;
 
-// CSRF token cache — AEM requires this header on all mutating requests
-let csrfToken: string = '';
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30_000;
 
-async function fetchCsrfToken(): Promise<string> {
+// Timeout for uploads, downloads and package builds and installs, which
+// routinely outlast the per-request timeout
+const TRANSFER_TIMEOUT_MS = 10 * 60 * 1000;
+
+async function fetchCsrfToken(env: AemEnvironment): Promise<string> {
   try {
-    const response = await fetch(`${getBaseUrl()}/libs/granite/csrf/token.json`, {
-      headers: { Authorization: await getAuthHeader() },
+    const response = await fetch(`${getBaseUrl(env)}/libs/granite/csrf/token.json`, {
+      headers: { Authorization: await getAuthHeader(env) },
+      signal: AbortSignal.timeout(env.timeoutMs),
     });
     if (!response.ok) return '';
     const data = await response.json() as { token: string };
-    csrfToken = data.token ?? '';
+    env.csrfToken = data.token ?? '';
+    env.csrfTokenExpiresAt = Date.now() + CSRF_TOKEN_TTL_MS;
   } catch {
-    csrfToken = '';
+    env.csrfToken = '';
   }
-  return csrfToken;
+  return env.csrfToken;
 }
 
-async function getCsrfToken(): Promise<string> {
-  if (!csrfToken) await fetchCsrfToken();
-  return csrfToken;
+async function getCsrfToken(env: AemEnvironment): Promise<string> {
+  if (!env.csrfToken || Date.now() >= env.csrfTokenExpiresAt) await fetchCsrfToken(env);
+  return env.csrfToken;
 }
 
-// Lazy getter so a missing AEM_BASE_URL only fails when a tool is called,
+// Lazy getter so a missing base URL only fails when a tool is called,
 // not at startup — allowing Claude Desktop to connect first.
-function getBaseUrl(): string {
-  const url = process.env.AEM_BASE_URL ?? '';
-  if (!url) throw new Error('AEM_BASE_URL is not set. Add it to your .env file.');
-  return url.replace(/\/$/, '');
+function getBaseUrl(env: AemEnvironment): string {
+  if (!env.baseUrl) {
+    throw new Error(`${envVarName(env, 'BASE_URL')} is not set. Add it to your .env file.`);
+  }
+  return env.baseUrl;
 }
 
-async function refreshAccessToken(): Promise<void> {
-  if (!AEM_CLIENT_ID || !AEM_CLIENT_SECRET || !AEM_SCOPES) {
+async function refreshAccessToken(env: AemEnvironment): Promise<void> {
+  const clientId = envVarName(env, 'CLIENT_ID');
+  const clientSecret = envVarName(env, 'CLIENT_SECRET');
+  const scopes = envVarName(env, 'SCOPES');
+  if (!env.clientId || !env.clientSecret || !env.scopes) {
     throw new Error(
-      'AEM_CLIENT_ID, AEM_CLIENT_SECRET, and AEM_SCOPES are required for automatic token refresh. ' +
+      `${clientId}, ${clientSecret}, and ${scopes} are required for automatic token refresh. ` +
       'Run `npm run get-token` to fetch a token manually, or add all three to .env. ' +
-      'AEM_SCOPES must be copied exactly from Adobe Developer Console → OAuth Server-to-Server → Credential details.'
+      `${scopes} must be copied exactly from Adobe Developer Console → OAuth Server-to-Server → Credential details.`
     );
   }
 
   const body = new URLSearchParams({
     grant_type: 'client_credentials',
-    client_id: AEM_CLIENT_ID,
-    client_secret: AEM_CLIENT_SECRET,
-    scope: AEM_SCOPES,
+    client_id: env.clientId,
+    client_secret: env.clientSecret,
+    scope: env.scopes,
   });
 
   const response = await fetch(IMS_TOKEN_URL, {
     method: 'POST',
     headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
     body: body.toString(),
+    signal: AbortSignal.timeout(env.timeoutMs),
   });
 
   if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`IMS token refresh failed (${response.status}): ${text}`);
+    throw new AemError('authentication', 'IMS token refresh', {
+      environment: env.name,
+      path: IMS_TOKEN_URL,
+      status: response.status,
+      detail: errorDetail(await response.text()),
+      hint: `Check ${clientId}, ${clientSecret} and ${scopes}; the scopes must match Adobe Developer Console exactly.`,
+    });
   }
 
   const data = await response.json() as { access_token: string; expires_in: number };
-  accessToken = data.access_token;
+  env.accessToken = data.access_token;
   // Subtract 60s buffer so we refresh before the token actually expires
-  tokenExpiresAt = Date.now() + (data.expires_in - 60) * 1000;
+  env.tokenExpiresAt = Date.now() + (data.expires_in - 60) * 1000;
 }
 
-async function ensureValidToken(): Promise<string> {
-  if (!accessToken || Date.now() >= tokenExpiresAt) {
-    await refreshAccessToken();
+async function ensureValidToken(env: AemEnvironment): Promise<string> {
+  if (!env.accessToken || Date.now() >= env.tokenExpiresAt) {
+    await refreshAccessToken(env);
   }
-  return accessToken;
+  return env.accessToken;
 }
 
-async function getAuthHeader(): Promise<string> {
-  if (AEM_AUTH_TYPE === 'token') {
-    const token = await ensureValidToken();
+async function getAuthHeader(env: AemEnvironment): Promise<string> {
+  if (env.authType === 'token') {
+    const token = await ensureValidToken(env);
     return `Bearer ${token}`;
   }
   // Default: basic auth
-  if (!AEM_USERNAME || !AEM_PASSWORD) {
-    throw new Error('AEM_USERNAME and AEM_PASSWORD are required when AEM_AUTH_TYPE=basic');
+  if (!env.username || !env.password) {
+    throw new Error(
+      `${envVarName(env, 'USERNAME')} and ${envVarName(env, 'PASSWORD')} are required when ${envVarName(env, 'AUTH_TYPE')}=basic`
+    );
   }
-  const credentials = Buffer.from(`${AEM_USERNAME}:${AEM_PASSWORD}`).toString('base64');
+  const credentials = Buffer.from(`${env.username}:${env.password}`).toString('base64');
   return `Basic ${credentials}`;
 }
 
-async function aemRequest<T>(
+interface FetchOptions {
+  // Names the operation in error messages
+  label?: string;
+  // Retry on 429, 5xx and network errors. Defaults to true for GET and HEAD;
+  // set it on POSTs that change nothing, such as GraphQL queries.
+  idempotent?: boolean;
+  // Replaces the profile's per-attempt timeout for long-running operations
+  timeoutMs?: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Honors Retry-After, otherwise backs off exponentially with jitter
+function retryDelay(retry: number, response?: Response): number {
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  const delay = retryAfter > 0 ? retryAfter * 1000 : RETRY_BASE_DELAY_MS * 2 ** retry * (0.5 + Math.random());
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+// Sends a request with the profile's credentials, plus a CSRF token on mutations.
+// Every attempt times out after the profile's timeout. Idempotent requests are
+// retried with backoff on 429, 5xx and network errors. A 401 or 403 is replayed
+// once after fetching a new IMS token (401 with token auth) or CSRF token
+// (mutations). Other non-2xx responses are returned for the caller to handle.
+async function aemFetch(
+  env: AemEnvironment,
   path: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const method = (options.method ?? 'GET').toUpperCase();
+  init: RequestInit = {},
+  options: FetchOptions = {}
+): Promise<Response> {
+  const method = (init.method ?? 'GET').toUpperCase();
   const isMutation = method !== 'GET' && method !== 'HEAD';
-  const csrf = isMutation ? await getCsrfToken() : '';
+  const idempotent = options.idempotent ?? !isMutation;
+  const timeoutMs = options.timeoutMs ?? env.timeoutMs;
+  const url = `${getBaseUrl(env)}${path}`;
+  let retries = 0;
+  let replayed = false;
+
+  for (;;) {
+    const csrf = isMutation ? await getCsrfToken(env) : '';
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: {
+          Authorization: await getAuthHeader(env),
+          ...(csrf ? { 'CSRF-Token': csrf } : {}),
+          ...init.headers,
+        },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (err) {
+      if (idempotent && retries < env.maxRetries) {
+        await sleep(retryDelay(retries++));
+        continue;
+      }
+      throw requestError(env, options.label ?? `${method} request`, path, err, timeoutMs);
+    }
+
+    const refreshToken = response.status === 401 && env.authType === 'token';
+    if ((response.status === 401 || response.status === 403) && (refreshToken || isMutation) && !replayed) {
+      replayed = true;
+      await response.body?.cancel();
+      if (refreshToken) env.tokenExpiresAt = 0;
+      if (isMutation) env.csrfTokenExpiresAt = 0;
+      continue;
+    }
+
+    if (isTransient(response.status) && idempotent && retries < env.maxRetries) {
+      const delay = retryDelay(retries++, response);
+      await response.body?.cancel();
+      await sleep(delay);
+      continue;
+    }
+    return response;
+  }
+}
 
-  const url = `${getBaseUrl()}${path}`;
-  const response = await fetch(url, {
+async function aemRequest<T>(
+  env: AemEnvironment,
+  path: string,
+  options: RequestInit = {},
+  fetchOptions: FetchOptions = {}
+): Promise<T> {
+  const label = fetchOptions.label ?? 'API request';
+  const response = await aemFetch(env, path, {
     ...options,
     headers: {
-      Authorization: await getAuthHeader(),
       'Content-Type': 'application/json',
       Accept: 'application/json',
-      ...(csrf ? { 'CSRF-Token': csrf } : {}),
       ...options.headers,
     },
-  });
+  }, { ...fetchOptions, label });
 
   if (!response.ok) {
-    const body = await response.text();
-    throw new Error(`AEM API error ${response.status} ${response.statusText}: ${body}`);
+    throw await responseError(env, response, label, path);
   }
 
   const contentType = response.headers.get('content-type') ?? '';
@@ -134,18 +240,17 @@ async function aemRequest<T>(
 }
 
 // Shared helper for Sling POST Servlet / WCM Command form submissions
-async function aemFormPost(endpoint: string, formData: URLSearchParams): Promise<Response> {
-  const csrf = await getCsrfToken();
-  const response = await fetch(`${getBaseUrl()}${endpoint}`, {
+async function aemFormPost(
+  env: AemEnvironment,
+  endpoint: string,
+  formData: URLSearchParams,
+  options: FetchOptions = {}
+): Promise<Response> {
+  return aemFetch(env, endpoint, {
     method: 'POST',
-    headers: {
-      Authorization: await getAuthHeader(),
-      'Content-Type': 'application/x-www-form-urlencoded',
-      ...(csrf ? { 'CSRF-Token': csrf } : {}),
-    },
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
     body: formData.toString(),
-  });
-  return response;
+  }, options);
 }
 
 // ─── Pages ───────────────────────────────────────────────────────────────────
@@ -157,20 +262,24 @@ export interface PageProperties {
   [key: string]: unknown;
 }
 
-export async function getPage(pagePath: string): Promise<unknown> {
-  return aemRequest(`${pagePath}.infinity.json`);
+// depth limits the levels of child nodes fetched; the whole tree when omitted
+export async function getPage(pagePath: string, depth?: number, environment?: string): Promise<JcrNode> {
+  const selector = depth === undefined ? 'infinity' : String(depth);
+  return aemRequest<JcrNode>(getEnvironment(environment), `${pagePath}.${selector}.json`);
 }
 
-export async function listPages(parentPath: string): Promise<unknown> {
-  return aemRequest(`${parentPath}.1.json`);
+export async function listPages(parentPath: string, environment?: string): Promise<JcrNode> {
+  return aemRequest<JcrNode>(getEnvironment(environment), `${parentPath}.1.json`);
 }
 
 export async function createPage(
   parentPath: string,
   pageName: string,
   template: string,
-  title: string
+  title: string,
+  environment?: string
 ): Promise<unknown> {
+  const env = getEnvironment(environment);
   const formData = new URLSearchParams({
     cmd: 'createPage',
     parentPath,
@@ -180,36 +289,48 @@ export async function createPage(
     _charset_: 'utf-8',
   });
 
-  const response = await aemFormPost('/bin/wcmcommand', formData);
+  const response = await aemFormPost(env, '/bin/wcmcommand', formData);
 
   if (!response.ok) {
-    const body = await response.text();
-    throw new Error(`AEM create page error ${response.status}: ${body}`);
+    throw await responseError(env, response, 'create page', `${parentPath}/${pageName}`);
   }
   return response.json();
 }
 
 export async function updatePageProperties(
   pagePath: string,
-  properties: PageProperties
+  properties: PageProperties,
+  versionFirst?: boolean,
+  environment?: string
 ): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const version = await createAutoVersion(pagePath, versionFirst, environment);
+
   const formData = new URLSearchParams({ _charset_: 'utf-8' });
   for (const [key, value] of Object.entries(properties)) {
-    if (value !== undefined) {
+    if (Array.isArray(value)) {
+      // Multi-valued properties such as cq:tags
+      for (const item of value) formData.append(key, String(item));
+      formData.append(`${key}@TypeHint`, 'String[]');
+    } else if (value !== undefined) {
       formData.append(key, String(value));
     }
   }
 
-  const response = await aemFormPost(`${pagePath}/jcr:content`, formData);
+  const response = await aemFormPost(env, `${pagePath}/jcr:content`, formData);
 
   if (!response.ok) {
-    const body = await response.text();
-    throw new Error(`AEM update page error ${response.status}: ${body}`);
+    throw await responseError(env, response, 'update page');
   }
-  return { success: true, path: pagePath };
+  return { success: true, path: pagePath, ...(version ? { version } : {}) };
 }
 
-export async function deletePage(pagePath: string, force = false): Promise<unknown> {
+export async function deletePage(
+  pagePath: string,
+  force = false,
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
   const formData = new URLSearchParams({
     cmd: 'deletePage',
     path: pagePath,
@@ -217,15 +338,371 @@ export async function deletePage(pagePath: string, force = false): Promise<unkno
     _charset_: 'utf-8',
   });
 
-  const response = await aemFormPost('/bin/wcmcommand', formData);
+  const response = await aemFormPost(env, '/bin/wcmcommand', formData);
 
   if (!response.ok) {
-    const body = await response.text();
-    throw new Error(`AEM delete page error ${response.status}: ${body}`);
+    throw await responseError(env, response, 'delete page', pagePath);
   }
   return { success: true, path: pagePath };
 }
 
+// ─── Page Restructuring ──────────────────────────────────────────────────────
+
+export interface PageReference {
+  path: string;
+  title?: string;
+  references: string[];
+  published?: boolean;
+}
+
+export interface MovePageOptions {
+  destName?: string;
+  title?: string;
+  // Sibling page name to order the moved page before
+  before?: string;
+  adjustReferences?: boolean;
+  republishReferences?: boolean;
+  dryRun?: boolean;
+}
+
+export interface CopyPageOptions {
+  destName?: string;
+  title?: string;
+  before?: string;
+  // Copy only the page itself, without its child pages
+  shallow?: boolean;
+  dryRun?: boolean;
+}
+
+function pageName(pagePath: string): string {
+  return pagePath.split('/').pop() ?? '';
+}
+
+function parentPath(pagePath: string): string {
+  return pagePath.slice(0, pagePath.lastIndexOf('/'));
+}
+
+// Pages that link to the given page, as reported by the reference search the
+// Move Page dialog uses
+export async function getPageReferences(pagePath: string, environment?: string): Promise<PageReference[]> {
+  const query = new URLSearchParams({ path: pagePath, _charset_: 'utf-8' });
+  const data = await aemRequest<{ pages?: Array<Record<string, unknown>> }>(
+    getEnvironment(environment),
+    `/libs/wcm/core/content/reference.json?${query.toString()}`
+  );
+  return (data.pages ?? [])
+    // The servlet lists the page itself when it references its own subtree
+    .filter((page) => page.path !== pagePath)
+    .map((page) => ({
+      path: String(page.path),
+      title: page.title as string | undefined,
+      references: (page.references as string[] | undefined) ?? [],
+      published: page.published as boolean | undefined,
+    }));
+}
+
+async function listSubtreePages(pagePath: string, shallow: boolean, environment?: string): Promise<string[]> {
+  if (shallow) return [pagePath];
+  const result = await searchContent({
+    path: pagePath,
+    type: 'cq:Page',
+    limit: -1,
+    'p.hits': 'selective',
+    'p.properties': 'jcr:path',
+  }, environment) as { hits?: Array<{ 'jcr:path': string }> };
+  return [pagePath, ...(result.hits ?? []).map((hit) => hit['jcr:path'])];
+}
+
+export async function movePage(
+  srcPath: string,
+  destParentPath: string,
+  options: MovePageOptions = {},
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const destName = options.destName ?? pageName(srcPath);
+  const destPath = `${destParentPath}/${destName}`;
+  const needsReferences = options.adjustReferences || options.republishReferences || options.dryRun;
+  const references = needsReferences ? await getPageReferences(srcPath, environment) : [];
+
+  if (options.dryRun) {
+    return {
+      dryRun: true,
+      source: srcPath,
+      destination: destPath,
+      movedPages: await listSubtreePages(srcPath, false, environment),
+      referencingPages: references,
+      adjustReferences: options.adjustReferences ?? false,
+      republishReferences: options.republishReferences ?? false,
+    };
+  }
+  // The move republishes the referencing pages, so they are subject to the publish rules
+  if (options.republishReferences) {
+    assertOperationAllowed(env, 'publish', references.map((r) => r.path));
+  }
+
+  const formData = new URLSearchParams({
+    cmd: 'movePage',
+    srcPath,
+    destParentPath,
+    destName,
+    integrity: 'true',
+    _charset_: 'utf-8',
+  });
+  if (options.title) formData.set('destTitle', options.title);
+  if (options.before) formData.set('before', options.before);
+  for (const reference of references) {
+    if (options.adjustReferences) formData.append('adjust', reference.path);
+    if (options.republishReferences) formData.append('publish', reference.path);
+  }
+
+  const response = await aemFormPost(env, '/bin/wcmcommand', formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'move page', srcPath);
+  }
+  return {
+    success: true,
+    source: srcPath,
+    destination: destPath,
+    adjusted: options.adjustReferences ? references.map((r) => r.path) : [],
+    republished: options.republishReferences ? references.map((r) => r.path) : [],
+  };
+}
+
+export async function renamePage(
+  pagePath: string,
+  newName: string,
+  options: Omit<MovePageOptions, 'destName'> = {},
+  environment?: string
+): Promise<unknown> {
+  return movePage(pagePath, parentPath(pagePath), { ...options, destName: newName }, environment);
+}
+
+export async function copyPage(
+  srcPath: string,
+  destParentPath: string,
+  options: CopyPageOptions = {},
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const destName = options.destName ?? pageName(srcPath);
+  const destPath = `${destParentPath}/${destName}`;
+  const shallow = options.shallow ?? false;
+
+  if (options.dryRun) {
+    return {
+      dryRun: true,
+      source: srcPath,
+      destination: destPath,
+      shallow,
+      copiedPages: await listSubtreePages(srcPath, shallow, environment),
+    };
+  }
+
+  const formData = new URLSearchParams({
+    cmd: 'copyPage',
+    srcPath,
+    destParentPath,
+    destName,
+    shallow: shallow ? 'true' : 'false',
+    _charset_: 'utf-8',
+  });
+  if (options.title) formData.set('destTitle', options.title);
+  if (options.before) formData.set('before', options.before);
+
+  const response = await aemFormPost(env, '/bin/wcmcommand', formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'copy page', srcPath);
+  }
+  return { success: true, source: srcPath, destination: destPath, shallow };
+}
+
+// ─── Components ──────────────────────────────────────────────────────────────
+
+// Bookkeeping properties that AEM maintains itself; hidden from the component
+// tree so only author-editable properties are shown
+const SYSTEM_PROPERTIES = new Set([
+  'jcr:primaryType',
+  'jcr:mixinTypes',
+  'jcr:uuid',
+  'jcr:created',
+  'jcr:createdBy',
+  'jcr:lastModified',
+  'jcr:lastModifiedBy',
+  'cq:lastModified',
+  'cq:lastModifiedBy',
+  'sling:resourceType',
+]);
+
+export interface ComponentNode {
+  path: string;
+  name: string;
+  resourceType: string;
+  depth: number;
+  isContainer: boolean;
+  properties: Record<string, unknown>;
+}
+
+export type ComponentPosition = 'first' | 'last' | 'before' | 'after';
+
+// Appends properties to a Sling POST form; arrays become multi-valued properties
+function appendProperties(formData: URLSearchParams, properties: Record<string, string | string[]>): void {
+  for (const [key, value] of Object.entries(properties)) {
+    if (Array.isArray(value)) {
+      for (const item of value) formData.append(key, item);
+      formData.append(`${key}@TypeHint`, 'String[]');
+    } else if (value !== undefined) {
+      formData.append(key, value);
+    }
+  }
+}
+
+// Builds the Sling POST Servlet `:order` value, e.g. "before text_1234"
+function orderValue(position: ComponentPosition, sibling?: string): string {
+  if (position === 'first' || position === 'last') return position;
+  if (!sibling) throw new Error(`A sibling component name is required when position is "${position}"`);
+  return `${position} ${sibling}`;
+}
+
+function assertComponentPath(componentPath: string): void {
+  if (!componentPath.includes('/jcr:content/')) {
+    throw new Error(`${componentPath} is not a component path — it must be below a page's jcr:content node`);
+  }
+}
+
+function collectComponents(
+  node: Record<string, unknown>,
+  path: string,
+  depth: number,
+  results: ComponentNode[]
+): void {
+  for (const [name, value] of Object.entries(node)) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) continue;
+    const child = value as Record<string, unknown>;
+    const childPath = `${path}/${name}`;
+    const resourceType = child['sling:resourceType'];
+
+    if (typeof resourceType === 'string') {
+      const properties: Record<string, unknown> = {};
+      let isContainer = false;
+      for (const [key, prop] of Object.entries(child)) {
+        if (prop && typeof prop === 'object' && !Array.isArray(prop)) {
+          if (typeof (prop as Record<string, unknown>)['sling:resourceType'] === 'string') isContainer = true;
+        } else if (!SYSTEM_PROPERTIES.has(key)) {
+          properties[key] = prop;
+        }
+      }
+      results.push({ path: childPath, name, resourceType, depth, isContainer, properties });
+      collectComponents(child, childPath, depth + 1, results);
+    } else {
+      collectComponents(child, childPath, depth, results);
+    }
+  }
+}
+
+export async function getComponentTree(pagePath: string, environment?: string): Promise<ComponentNode[]> {
+  const contentPath = `${pagePath}/jcr:content`;
+  const content = await aemRequest<Record<string, unknown>>(
+    getEnvironment(environment),
+    `${contentPath}.infinity.json`
+  );
+  const results: ComponentNode[] = [];
+  collectComponents(content, contentPath, 0, results);
+  return results;
+}
+
+export async function addComponent(
+  containerPath: string,
+  resourceType: string,
+  properties: Record<string, string | string[]> = {},
+  name?: string,
+  position: ComponentPosition = 'last',
+  sibling?: string,
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  assertComponentPath(`${containerPath}/`);
+
+  // Mirror the editor's naming scheme (e.g. text_1712345678901) when no name is given
+  const nodeName = name ?? `${resourceType.split('/').pop()}_${Date.now()}`;
+  const componentPath = `${containerPath}/${nodeName}`;
+
+  const formData = new URLSearchParams({
+    'jcr:primaryType': 'nt:unstructured',
+    'sling:resourceType': resourceType,
+    ':order': orderValue(position, sibling),
+    _charset_: 'utf-8',
+  });
+  appendProperties(formData, properties);
+
+  const response = await aemFormPost(env, componentPath, formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'add component');
+  }
+  return { success: true, path: componentPath, resourceType };
+}
+
+export async function updateComponent(
+  componentPath: string,
+  properties: Record<string, string | string[]>,
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  assertComponentPath(componentPath);
+
+  const formData = new URLSearchParams({ _charset_: 'utf-8' });
+  appendProperties(formData, properties);
+
+  const response = await aemFormPost(env, componentPath, formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'update component');
+  }
+  return { success: true, path: componentPath };
+}
+
+export async function moveComponent(
+  componentPath: string,
+  position: ComponentPosition,
+  sibling?: string,
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  assertComponentPath(componentPath);
+
+  const formData = new URLSearchParams({
+    ':order': orderValue(position, sibling),
+    _charset_: 'utf-8',
+  });
+
+  const response = await aemFormPost(env, componentPath, formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'move component');
+  }
+  return { success: true, path: componentPath, order: formData.get(':order') };
+}
+
+export async function deleteComponent(componentPath: string, environment?: string): Promise<unknown> {
+  const env = getEnvironment(environment);
+  assertComponentPath(componentPath);
+
+  const formData = new URLSearchParams({
+    ':operation': 'delete',
+    _charset_: 'utf-8',
+  });
+
+  const response = await aemFormPost(env, componentPath, formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'delete component');
+  }
+  return { success: true, path: componentPath };
+}
+
 // ─── Search (QueryBuilder) ────────────────────────────────────────────────────
 
 export interface QueryBuilderParams {
@@ -238,7 +715,10 @@ export interface QueryBuilderParams {
   [key: string]: string | number | undefined;
 }
 
-export async function searchContent(params: QueryBuilderParams): Promise<unknown> {
+export async function searchContent(
+  params: QueryBuilderParams,
+  environment?: string
+): Promise<unknown> {
   const query = new URLSearchParams();
   query.set('p.limit', String(params.limit ?? 20));
   query.set('p.offset', String(params.offset ?? 0));
@@ -255,112 +735,2896 @@ export async function searchContent(params: QueryBuilderParams): Promise<unknown
     }
   }
 
-  return aemRequest(`/bin/querybuilder.json?${query.toString()}`);
+  return aemRequest(getEnvironment(environment), `/bin/querybuilder.json?${query.toString()}`);
 }
 
-// ─── Assets ──────────────────────────────────────────────────────────────────
+export type PropertyOperation = 'equals' | 'unequals' | 'like' | 'not' | 'exists';
 
-export async function getAsset(assetPath: string): Promise<unknown> {
-  return aemRequest(`${assetPath}.json`);
+export interface PropertyPredicate {
+  property: string;
+  // Multiple values are OR-ed unless `and` is set
+  value?: string | string[];
+  operation?: PropertyOperation;
+  and?: boolean;
 }
 
-export async function listAssets(folderPath: string): Promise<unknown> {
-  return searchContent({
-    path: folderPath,
-    type: 'dam:Asset',
-    limit: 50,
-  });
+export interface DateRangePredicate {
+  property: string;
+  lowerBound?: string;
+  lowerOperation?: '>' | '>=';
+  upperBound?: string;
+  upperOperation?: '<' | '<=';
 }
 
-export async function getAssetRenditions(assetPath: string): Promise<unknown> {
-  return aemRequest(`${assetPath}/jcr:content/renditions.1.json`);
+export interface RelativeDateRangePredicate {
+  property: string;
+  // Relative durations such as -7d, -2h or 1M
+  lowerBound?: string;
+  upperBound?: string;
 }
 
-// ─── Content Fragments ───────────────────────────────────────────────────────
+export interface TagIdPredicate {
+  tagId: string;
+  property?: string;
+}
 
-export async function getContentFragment(fragmentPath: string): Promise<unknown> {
-  return aemRequest(`/api/assets${fragmentPath}.json`);
+export interface PredicateGroup {
+  or?: boolean;
+  not?: boolean;
+  fulltext?: string;
+  property?: PropertyPredicate[];
+  daterange?: DateRangePredicate[];
+  relativedaterange?: RelativeDateRangePredicate[];
+  tagid?: TagIdPredicate[];
+  nodename?: string[];
+  groups?: PredicateGroup[];
 }
 
-export async function listContentFragments(
-  folderPath: string,
-  modelPath?: string
-): Promise<unknown> {
-  const params: QueryBuilderParams = {
-    path: folderPath,
-    type: 'dam:Asset',
-    limit: 50,
-    'property': 'jcr:content/contentFragment',
-    'property.value': 'true',
-  };
+export interface StructuredQuery extends PredicateGroup {
+  path?: string;
+  type?: string;
+  orderby?: string;
+  sort?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+  // Return only these properties per hit (p.hits=selective)
+  properties?: string[];
+  // Let QueryBuilder estimate the total instead of counting every match
+  guessTotal?: boolean | number;
+  // Keep fetching pages of `limit` results until exhausted or `maxResults` is reached
+  autoPaginate?: boolean;
+  maxResults?: number;
+}
 
-  if (modelPath) {
-    params['property.1_property'] = 'jcr:content/data/cq:model';
-    params['property.1_value'] = modelPath;
+interface QueryBuilderResponse {
+  success?: boolean;
+  results?: number;
+  total?: number;
+  more?: boolean;
+  offset?: number;
+  hits?: unknown[];
+}
+
+const DEFAULT_MAX_RESULTS = 500;
+const MAX_AUTO_PAGINATE_RESULTS = 5000;
+
+// Compiles a predicate group into QueryBuilder's numbered parameter syntax,
+// e.g. 1_property=..., group.1_group.p.or=true
+function compileGroup(group: PredicateGroup, prefix: string, params: QueryBuilderParams): void {
+  if (group.or) params[`${prefix}p.or`] = 'true';
+  if (group.not) params[`${prefix}p.not`] = 'true';
+
+  let index = 0;
+  const next = (name: string) => `${prefix}${++index}_${name}`;
+
+  if (group.fulltext) params[next('fulltext')] = group.fulltext;
+
+  for (const predicate of group.property ?? []) {
+    const key = next('property');
+    params[key] = predicate.property;
+    const values = Array.isArray(predicate.value) ? predicate.value : predicate.value !== undefined ? [predicate.value] : [];
+    if (values.length === 1) {
+      params[`${key}.value`] = values[0];
+    } else {
+      values.forEach((value, i) => { params[`${key}.${i + 1}_value`] = value; });
+    }
+    if (predicate.operation && predicate.operation !== 'equals') params[`${key}.operation`] = predicate.operation;
+    if (predicate.and) params[`${key}.and`] = 'true';
   }
 
-  return searchContent(params);
+  for (const predicate of group.daterange ?? []) {
+    const key = next('daterange');
+    params[`${key}.property`] = predicate.property;
+    if (predicate.lowerBound) params[`${key}.lowerBound`] = predicate.lowerBound;
+    if (predicate.lowerOperation) params[`${key}.lowerOperation`] = predicate.lowerOperation;
+    if (predicate.upperBound) params[`${key}.upperBound`] = predicate.upperBound;
+    if (predicate.upperOperation) params[`${key}.upperOperation`] = predicate.upperOperation;
+  }
+
+  for (const predicate of group.relativedaterange ?? []) {
+    const key = next('relativedaterange');
+    params[`${key}.property`] = predicate.property;
+    if (predicate.lowerBound) params[`${key}.lowerBound`] = predicate.lowerBound;
+    if (predicate.upperBound) params[`${key}.upperBound`] = predicate.upperBound;
+  }
+
+  for (const predicate of group.tagid ?? []) {
+    const key = next('tagid');
+    params[key] = predicate.tagId;
+    params[`${key}.property`] = predicate.property ?? 'jcr:content/cq:tags';
+  }
+
+  for (const pattern of group.nodename ?? []) {
+    params[next('nodename')] = pattern;
+  }
+
+  for (const nested of group.groups ?? []) {
+    compileGroup(nested, `${next('group')}.`, params);
+  }
 }
 
-export async function createContentFragment(
-  parentPath: string,
-  name: string,
-  modelPath: string,
-  title: string,
-  description?: string
-): Promise<unknown> {
-  const body: Record<string, string> = {
-    'jcr:title': title,
-    template: modelPath,
+export function buildQueryParams(query: StructuredQuery): QueryBuilderParams {
+  const params: QueryBuilderParams = {
+    path: query.path,
+    type: query.type,
+    limit: query.limit,
+    offset: query.offset,
   };
-  if (description) body['jcr:description'] = description;
 
-  const formData = new URLSearchParams({ ...body, _charset_: 'utf-8' });
+  // Top-level predicates are wrapped in a group so fulltext, tags etc. can be OR-ed
+  const { or, not, fulltext, property, daterange, relativedaterange, tagid, nodename, groups } = query;
+  compileGroup({ or, not, fulltext, property, daterange, relativedaterange, tagid, nodename, groups }, 'group.', params);
+
+  if (query.orderby) {
+    params.orderby = query.orderby;
+    if (query.sort) params['orderby.sort'] = query.sort;
+  }
+  if (query.properties?.length) {
+    params['p.hits'] = 'selective';
+    params['p.properties'] = query.properties.join(' ');
+  }
+  if (query.guessTotal !== undefined && query.guessTotal !== false) {
+    params['p.guessTotal'] = String(query.guessTotal);
+  }
+  return params;
+}
 
-  const response = await aemFormPost(`/api/assets${parentPath}/${name}`, formData);
+export async function runQuery(query: StructuredQuery, environment?: string): Promise<SearchResult> {
+  const params = buildQueryParams(query);
 
-  if (!response.ok) {
-    const body = await response.text();
-    throw new Error(`AEM create content fragment error ${response.status}: ${body}`);
+  if (!query.autoPaginate) {
+    return toSearchResult(await searchContent(params, environment) as JcrNode);
   }
-  return response.json();
+
+  const pageSize = query.limit && query.limit > 0 ? query.limit : 100;
+  const maxResults = Math.min(query.maxResults ?? DEFAULT_MAX_RESULTS, MAX_AUTO_PAGINATE_RESULTS);
+  const hits: unknown[] = [];
+  let offset = query.offset ?? 0;
+  let total: number | undefined;
+  let more = true;
+  let pages = 0;
+
+  while (more && hits.length < maxResults) {
+    const page = await searchContent(
+      { ...params, limit: Math.min(pageSize, maxResults - hits.length), offset },
+      environment
+    ) as QueryBuilderResponse;
+    const pageHits = page.hits ?? [];
+    hits.push(...pageHits);
+    total = page.total;
+    pages++;
+    offset += pageHits.length;
+    // `more` is only reported with p.guessTotal; otherwise compare against the total
+    more = pageHits.length > 0 && (page.more ?? (total !== undefined && offset < total));
+  }
+
+  return {
+    ...toSearchResult({ total, hits }),
+    pages,
+    truncated: more,
+    nextOffset: more ? offset : undefined,
+  };
 }
 
-export async function updateContentFragment(
-  fragmentPath: string,
-  properties: Record<string, string | string[]>
-): Promise<unknown> {
-  return aemRequest(`/api/assets${fragmentPath}`, {
-    method: 'PUT',
-    body: JSON.stringify({
-      class: 'asset',
-      properties,
-    }),
-  });
+// ─── Assets ──────────────────────────────────────────────────────────────────
+
+// Three levels reach jcr:content/metadata and the rendition names
+export async function getAsset(assetPath: string, environment?: string): Promise<JcrNode> {
+  return aemRequest<JcrNode>(getEnvironment(environment), `${assetPath}.3.json`);
 }
 
-// ─── Replication ─────────────────────────────────────────────────────────────
+export async function listAssets(folderPath: string, environment?: string): Promise<SearchResult> {
+  return toSearchResult(await searchContent({
+    path: folderPath,
+    type: 'dam:Asset',
+    limit: 50,
+  }, environment) as JcrNode);
+}
 
-export async function replicatePage(
-  path: string,
-  action: 'Activate' | 'Deactivate' = 'Activate'
-): Promise<unknown> {
-  const formData = new URLSearchParams({
-    cmd: action,
-    path,
-    _charset_: 'utf-8',
-  });
+export async function getAssetRenditions(assetPath: string, environment?: string): Promise<Rendition[]> {
+  const renditions = await aemRequest<JcrNode>(getEnvironment(environment), `${assetPath}/jcr:content/renditions.2.json`);
+  return toRenditions(assetPath, renditions);
+}
+
+export interface RenditionContent {
+  assetPath: string;
+  name: string;
+  url: string;
+  mimeType: string;
+  size: number;
+  data: Buffer;
+}
+
+// Default budget keeps images comfortably below client attachment limits once base64-encoded
+const DEFAULT_RENDITION_MAX_BYTES = 1_000_000;
 
-  const response = await aemFormPost('/bin/replicate.json', formData);
+// Orders renditions for display: web renditions first, then thumbnails, largest
+// first within each, with the original as a last resort
+function rankRenditions(names: string[]): string[] {
+  const dimension = (name: string) => Number(name.match(/\.(\d+)\.\d+\./)?.[1] ?? 0);
+  const group = (name: string) =>
+    name.startsWith('cq5dam.web.') ? 0 : name.startsWith('cq5dam.thumbnail.') ? 1 : name === 'original' ? 3 : 2;
+  return [...names].sort((a, b) => group(a) - group(b) || dimension(b) - dimension(a));
+}
 
+async function fetchRendition(env: AemEnvironment, renditionPath: string, method: 'GET' | 'HEAD'): Promise<Response> {
+  const response = await aemFetch(env, renditionPath, { method }, { timeoutMs: TRANSFER_TIMEOUT_MS });
   if (!response.ok) {
-    const body = await response.text();
-    throw new Error(`AEM replication error ${response.status}: ${body}`);
+    throw await responseError(env, response, 'rendition', renditionPath);
   }
-  return { success: true, path, action };
+  return response;
 }
 
-// ─── Diagnostics ─────────────────────────────────────────────────────────────
+// Reads a response body, giving up as soon as it grows past maxBytes
+async function readCapped(response: Response, maxBytes: number): Promise<Buffer | undefined> {
+  if (!response.body) return Buffer.alloc(0);
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks, size);
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return undefined;
+    }
+    chunks.push(value);
+  }
+}
+
+// Downloads a rendition by name, or the best web rendition within maxBytes.
+// While searching, renditions that fail to load are skipped.
+export async function getAssetRendition(
+  assetPath: string,
+  renditionName?: string,
+  maxBytes = DEFAULT_RENDITION_MAX_BYTES,
+  environment?: string
+): Promise<RenditionContent> {
+  const env = getEnvironment(environment);
+  const renditionsPath = `${assetPath}/jcr:content/renditions`;
+
+  let candidates: string[];
+  if (renditionName) {
+    candidates = [renditionName];
+  } else {
+    const renditions = await aemRequest<Record<string, unknown>>(env, `${renditionsPath}.1.json`);
+    candidates = rankRenditions(
+      Object.keys(renditions).filter((name) => renditions[name] && typeof renditions[name] === 'object')
+    );
+  }
+
+  const tried: string[] = [];
+  for (const name of candidates) {
+    const renditionPath = `${renditionsPath}/${name}`;
+    try {
+      if (!renditionName) {
+        const head = await fetchRendition(env, renditionPath, 'HEAD');
+        const length = Number(head.headers.get('content-length') ?? 0);
+        if (length > maxBytes) {
+          tried.push(`${name} (${length} bytes)`);
+          continue;
+        }
+      }
+
+      // Without a content-length the size is only known once the body is read
+      const response = await fetchRendition(env, renditionPath, 'GET');
+      const data = await readCapped(response, maxBytes);
+      if (!data) {
+        if (renditionName) {
+          throw new Error(`Rendition ${name} is over the ${maxBytes} byte budget`);
+        }
+        tried.push(`${name} (over budget)`);
+        continue;
+      }
+      return {
+        assetPath,
+        name,
+        url: `${getBaseUrl(env)}${renditionPath}`,
+        mimeType: (response.headers.get('content-type') ?? 'application/octet-stream').split(';')[0].trim(),
+        size: data.length,
+        data,
+      };
+    } catch (err) {
+      if (renditionName) throw err;
+      tried.push(`${name} (${err instanceof AemError && err.status ? `HTTP ${err.status}` : 'failed'})`);
+    }
+  }
+
+  throw new Error(
+    `No rendition of ${assetPath} fits within ${maxBytes} bytes (tried: ${tried.join(', ') || 'none'})`
+  );
+}
+
+export interface UploadAssetOptions {
+  folderPath: string;
+  // Exactly one of filePath or base64Data must be given
+  filePath?: string;
+  base64Data?: string;
+  fileName?: string;
+  mimeType?: string;
+  metadata?: Record<string, string | string[]>;
+  replace?: boolean;
+  // 'auto' uses direct binary upload on AEM as a Cloud Service and the Assets HTTP API elsewhere
+  mode?: 'auto' | 'direct' | 'assets-api';
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.pdf': 'application/pdf',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.mp3': 'audio/mpeg',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.zip': 'application/zip',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+interface InitiateUploadResponse {
+  completeURI: string;
+  files: Array<{
+    fileName: string;
+    mimeType?: string;
+    uploadToken: string;
+    uploadURIs: string[];
+    minPartSize: number;
+    maxPartSize: number;
+  }>;
+}
+
+async function assetExists(env: AemEnvironment, assetPath: string): Promise<boolean> {
+  const response = await aemFetch(env, `${assetPath}.json`, { method: 'HEAD' });
+  if (response.status === 404) return false;
+  if (!response.ok) {
+    throw await responseError(env, response, 'check asset', assetPath);
+  }
+  return true;
+}
+
+// The binary of an upload. Local files are read one range at a time, so direct
+// binary uploads never hold more than a part in memory.
+interface UploadSource {
+  size: number;
+  read(start: number, end: number): Promise<Buffer>;
+}
+
+async function fileSource(filePath: string): Promise<UploadSource> {
+  const { size } = await stat(filePath);
+  return {
+    size,
+    read: async (start, end) => {
+      const handle = await open(filePath, 'r');
+      try {
+        const buffer = Buffer.alloc(end - start);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    },
+  };
+}
+
+function bufferSource(data: Buffer): UploadSource {
+  return { size: data.length, read: async (start, end) => data.subarray(start, end) };
+}
+
+// AEMaaCS direct binary upload: initiateUpload → PUT parts to blob storage → completeUpload
+async function directBinaryUpload(
+  env: AemEnvironment,
+  folderPath: string,
+  fileName: string,
+  mimeType: string,
+  source: UploadSource,
+  replace: boolean
+): Promise<number> {
+  const initForm = new URLSearchParams({ fileName, fileSize: String(source.size) });
+  const initResponse = await aemFormPost(env, `${folderPath}.initiateUpload.json`, initForm);
+  if (!initResponse.ok) {
+    throw await responseError(env, initResponse, 'initiate upload', `${folderPath}/${fileName}`);
+  }
+  const init = await initResponse.json() as InitiateUploadResponse;
+  const file = init.files[0];
+
+  // Spread the binary over the offered URIs, respecting the min/max part sizes
+  const partSize = Math.min(
+    file.maxPartSize,
+    Math.max(file.minPartSize, Math.ceil(source.size / file.uploadURIs.length))
+  );
+  const partCount = Math.max(1, Math.ceil(source.size / partSize));
+  if (partCount > file.uploadURIs.length) {
+    throw new Error(`File is too large for direct upload: needs ${partCount} parts, AEM offered ${file.uploadURIs.length}`);
+  }
+
+  for (let i = 0; i < partCount; i++) {
+    // Upload URIs are pre-signed blob storage URLs and must not receive AEM credentials
+    const part = await source.read(i * partSize, Math.min((i + 1) * partSize, source.size));
+    const response = await fetch(file.uploadURIs[i], {
+      method: 'PUT',
+      headers: { 'Content-Type': mimeType },
+      body: new Uint8Array(part),
+      signal: AbortSignal.timeout(TRANSFER_TIMEOUT_MS),
+    }).catch((err) => {
+      throw requestError(env, `binary upload of part ${i + 1}/${partCount}`, `${folderPath}/${fileName}`, err, TRANSFER_TIMEOUT_MS);
+    });
+    if (!response.ok) {
+      throw await responseError(env, response, `binary upload of part ${i + 1}/${partCount}`, `${folderPath}/${fileName}`);
+    }
+  }
+
+  const completeForm = new URLSearchParams({
+    fileName,
+    mimeType,
+    uploadToken: file.uploadToken,
+    fileSize: String(source.size),
+  });
+  if (replace) completeForm.set('replace', 'true');
+  const completeResponse = await aemFormPost(env, init.completeURI, completeForm);
+  if (!completeResponse.ok) {
+    throw await responseError(env, completeResponse, 'complete upload', `${folderPath}/${fileName}`);
+  }
+  return partCount;
+}
+
+// AEM 6.5: Assets HTTP API — POST creates the asset, PUT replaces its original rendition
+async function assetsApiUpload(
+  env: AemEnvironment,
+  assetPath: string,
+  mimeType: string,
+  source: UploadSource,
+  exists: boolean
+): Promise<void> {
+  await aemRequest(env, `/api/assets${assetPath}`, {
+    method: exists ? 'PUT' : 'POST',
+    headers: { 'Content-Type': mimeType },
+    body: new Uint8Array(await source.read(0, source.size)),
+  }, { label: 'asset upload', timeoutMs: TRANSFER_TIMEOUT_MS });
+}
+
+export async function uploadAsset(options: UploadAssetOptions, environment?: string): Promise<unknown> {
+  const env = getEnvironment(environment);
+  if (!!options.filePath === !!options.base64Data) {
+    throw new Error('Provide exactly one of filePath or base64Data');
+  }
+
+  const source = options.filePath
+    ? await fileSource(await resolveLocalFile(options.filePath))
+    : bufferSource(Buffer.from(options.base64Data!, 'base64'));
+  const fileName = options.fileName ?? (options.filePath ? basename(options.filePath) : '');
+  if (!fileName) throw new Error('fileName is required when uploading base64Data');
+
+  const mimeType = options.mimeType ?? MIME_TYPES[extname(fileName).toLowerCase()] ?? 'application/octet-stream';
+  const folderPath = options.folderPath.replace(/\/$/, '');
+  const assetPath = `${folderPath}/${fileName}`;
+
+  const exists = await assetExists(env, assetPath);
+  if (exists && !options.replace) {
+    throw new Error(`Asset ${assetPath} already exists. Pass replace=true to overwrite it.`);
+  }
+
+  const mode = options.mode ?? 'auto';
+  const direct = mode === 'direct' || (mode === 'auto' && getBaseUrl(env).includes('adobeaemcloud.com'));
+
+  let parts: number | undefined;
+  if (direct) {
+    parts = await directBinaryUpload(env, folderPath, fileName, mimeType, source, exists);
+  } else {
+    await assetsApiUpload(env, assetPath, mimeType, source, exists);
+  }
+
+  if (options.metadata && Object.keys(options.metadata).length > 0) {
+    try {
+      await updateAssetMetadata(assetPath, options.metadata, environment);
+    } catch (err) {
+      throw new Error(`Asset uploaded to ${assetPath}, but setting metadata failed: ${err}`);
+    }
+  }
+
+  return {
+    success: true,
+    path: assetPath,
+    mode: direct ? 'direct-binary' : 'assets-api',
+    replaced: exists,
+    size: source.size,
+    mimeType,
+    ...(parts !== undefined ? { parts } : {}),
+  };
+}
+
+export interface AssetUpdateResult {
+  path: string;
+  success: boolean;
+  error?: string;
+}
+
+export async function updateAssetMetadata(
+  assetPath: string,
+  metadata: Record<string, string | string[]>,
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const formData = new URLSearchParams({ _charset_: 'utf-8' });
+  appendProperties(formData, metadata);
+
+  const response = await aemFormPost(env, `${assetPath}/jcr:content/metadata`, formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'update asset metadata');
+  }
+  return { success: true, path: assetPath };
+}
+
+// Applies the same metadata to every asset in a folder, reporting per asset
+export async function batchUpdateAssetMetadata(
+  folderPath: string,
+  metadata: Record<string, string | string[]>,
+  recursive = false,
+  environment?: string
+): Promise<unknown> {
+  const result = await searchContent({
+    path: folderPath,
+    type: 'dam:Asset',
+    limit: -1,
+    'p.hits': 'selective',
+    'p.properties': 'jcr:path',
+    ...(recursive ? {} : { 'path.flat': 'true' }),
+  }, environment) as { hits?: Array<{ 'jcr:path': string }> };
+
+  const results: AssetUpdateResult[] = [];
+  for (const hit of result.hits ?? []) {
+    const path = hit['jcr:path'];
+    try {
+      await updateAssetMetadata(path, metadata, environment);
+      results.push({ path, success: true });
+    } catch (err) {
+      results.push({ path, success: false, error: String(err) });
+    }
+  }
+
+  return {
+    folderPath,
+    total: results.length,
+    succeeded: results.filter((r) => r.success).length,
+    failed: results.filter((r) => !r.success).length,
+    results,
+  };
+}
+
+export async function createAssetFolder(
+  parentPath: string,
+  name: string,
+  title?: string,
+  environment?: string
+): Promise<unknown> {
+  await aemRequest(getEnvironment(environment), `/api/assets${parentPath}/${name}`, {
+    method: 'POST',
+    body: JSON.stringify({
+      class: 'assetFolder',
+      properties: { 'jcr:title': title ?? name },
+    }),
+  });
+  return { success: true, path: `${parentPath}/${name}` };
+}
+
+// Moves an asset or folder with the Assets HTTP API MOVE verb
+export async function moveAsset(
+  srcPath: string,
+  destPath: string,
+  overwrite = false,
+  environment?: string
+): Promise<unknown> {
+  await aemRequest(getEnvironment(environment), `/api/assets${srcPath}`, {
+    method: 'MOVE',
+    headers: {
+      'X-Destination': `/api/assets${destPath}`,
+      'X-Depth': 'infinity',
+      'X-Overwrite': overwrite ? 'T' : 'F',
+    },
+  });
+  return { success: true, source: srcPath, destination: destPath };
+}
+
+export async function renameAsset(
+  assetPath: string,
+  newName: string,
+  environment?: string
+): Promise<unknown> {
+  return moveAsset(assetPath, `${parentPath(assetPath)}/${newName}`, false, environment);
+}
+
+// Deletes an asset or folder (including its contents)
+export async function deleteAsset(assetPath: string, environment?: string): Promise<unknown> {
+  await aemRequest(getEnvironment(environment), `/api/assets${assetPath}`, { method: 'DELETE' });
+  return { success: true, path: assetPath };
+}
+
+// ─── Content Fragments ───────────────────────────────────────────────────────
+
+export async function getContentFragment(fragmentPath: string, environment?: string): Promise<JcrNode> {
+  return aemRequest<JcrNode>(getEnvironment(environment), `/api/assets${fragmentPath}.json`);
+}
+
+export async function listContentFragments(
+  folderPath: string,
+  modelPath?: string,
+  environment?: string
+): Promise<SearchResult> {
+  const params: QueryBuilderParams = {
+    path: folderPath,
+    type: 'dam:Asset',
+    limit: 50,
+    'property': 'jcr:content/contentFragment',
+    'property.value': 'true',
+  };
+
+  if (modelPath) {
+    params['property.1_property'] = 'jcr:content/data/cq:model';
+    params['property.1_value'] = modelPath;
+  }
+
+  return toSearchResult(await searchContent(params, environment) as JcrNode);
+}
+
+export interface ContentFragmentField {
+  name: string;
+  label?: string;
+  // CF model editor data type, e.g. text-single, number, enumeration, fragmentreference
+  dataType: string;
+  valueType?: string;
+  multiple: boolean;
+  required: boolean;
+  options?: string[];
+  allowedModels?: string[];
+  rootPath?: string;
+}
+
+export interface ContentFragmentModel {
+  path: string;
+  title?: string;
+  description?: string;
+  status?: string;
+  fields: ContentFragmentField[];
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Fragment-level properties accepted alongside model fields on update
+const FRAGMENT_PROPERTIES = new Set(['title', 'description', 'jcr:title', 'jcr:description']);
+
+function toStringList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string' && value) return value.split(',').map((v) => v.trim());
+  if (value && typeof value === 'object') {
+    // Enumeration options stored as child nodes with a value property
+    const values = Object.values(value as Record<string, unknown>)
+      .filter((child): child is Record<string, unknown> => !!child && typeof child === 'object')
+      .map((child) => String(child.value ?? child.text ?? ''))
+      .filter(Boolean);
+    return values.length > 0 ? values : undefined;
+  }
+  return undefined;
+}
+
+function toModelField(item: Record<string, unknown>): ContentFragmentField {
+  const valueType = item.valueType as string | undefined;
+  return {
+    name: String(item.name),
+    label: item.fieldLabel as string | undefined,
+    dataType: String(item.metaType ?? 'text-single'),
+    valueType,
+    multiple: valueType?.endsWith('[]') ?? false,
+    required: item.required === true || item.required === 'on' || item.required === 'true',
+    options: toStringList(item.options),
+    allowedModels: toStringList(item.fragmentmodelreference ?? item.allowedModels),
+    rootPath: item.rootPath as string | undefined,
+  };
+}
+
+export async function getContentFragmentModel(modelPath: string, environment?: string): Promise<ContentFragmentModel> {
+  const model = await readFragmentModel(modelPath, environment);
+  if (!model) throw new Error(`${modelPath} is a legacy fragment template, not a Content Fragment Model`);
+  return model;
+}
+
+// Reads a Content Fragment Model; null for legacy fragment templates, which
+// define their elements directly instead of in a model dialog
+async function readFragmentModel(modelPath: string, environment?: string): Promise<ContentFragmentModel | null> {
+  let content: Record<string, unknown>;
+  try {
+    content = await aemRequest<Record<string, unknown>>(getEnvironment(environment), `${modelPath}/jcr:content.infinity.json`);
+  } catch (err) {
+    throw new Error(`Content Fragment Model ${modelPath} could not be read: ${err}`);
+  }
+
+  if (!content.model && isNode(content.elements)) return null;
+
+  const model = content.model as Record<string, unknown> | undefined;
+  const dialog = model?.['cq:dialog'] as Record<string, unknown> | undefined;
+  const items = (dialog?.content as Record<string, unknown> | undefined)?.items as Record<string, unknown> | undefined;
+  if (!items) throw new Error(`${modelPath} is not a Content Fragment Model (no field definitions found)`);
+
+  const fields = Object.values(items)
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .filter((item) => typeof item.name === 'string' && item.metaType !== 'tab-placeholder')
+    .map(toModelField);
+
+  return {
+    path: modelPath,
+    title: content['jcr:title'] as string | undefined,
+    description: content['jcr:description'] as string | undefined,
+    status: content.status as string | undefined,
+    fields,
+  };
+}
+
+// Reads the model a fragment was created from; null for fragments without one
+// (e.g. legacy template-based fragments)
+async function getFragmentModelOf(fragmentPath: string, environment?: string): Promise<ContentFragmentModel | null> {
+  let data: Record<string, unknown>;
+  try {
+    data = await aemRequest<Record<string, unknown>>(getEnvironment(environment), `${fragmentPath}/jcr:content/data.json`);
+  } catch {
+    return null;
+  }
+  const modelPath = data['cq:model'];
+  return typeof modelPath === 'string' ? getContentFragmentModel(modelPath, environment) : null;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function validateFieldValue(field: ContentFragmentField, value: string): string | null {
+  const type = `${field.dataType} ${field.valueType ?? ''}`;
+  if (/number|long|double/.test(type) && (value.trim() === '' || Number.isNaN(Number(value)))) {
+    return `expected a number, got "${value}"`;
+  }
+  if (/boolean/.test(type) && value !== 'true' && value !== 'false') {
+    return `expected true or false, got "${value}"`;
+  }
+  if (/date|calendar/.test(type) && Number.isNaN(Date.parse(value))) {
+    return `expected an ISO date, got "${value}"`;
+  }
+  if (field.dataType === 'enumeration' && field.options && !field.options.includes(value)) {
+    return `"${value}" is not one of: ${field.options.join(', ')}`;
+  }
+  if (/reference/.test(field.dataType) && value && !value.startsWith('/')) {
+    return `expected a JCR path, got "${value}"`;
+  }
+  return null;
+}
+
+// Checks values against the model. `partial` skips required-field checks for updates.
+export function validateFragmentFields(
+  model: ContentFragmentModel,
+  values: Record<string, string | string[]>,
+  partial = false
+): FieldError[] {
+  const errors: FieldError[] = [];
+  const fields = new Map(model.fields.map((field) => [field.name, field]));
+
+  for (const [name, value] of Object.entries(values)) {
+    if (FRAGMENT_PROPERTIES.has(name)) continue;
+    const field = fields.get(name);
+    if (!field) {
+      const suggestion = model.fields
+        .map((f) => ({ name: f.name, distance: editDistance(name.toLowerCase(), f.name.toLowerCase()) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+      const hint = suggestion && suggestion.distance <= 3 ? ` Did you mean "${suggestion.name}"?` : '';
+      errors.push({ field: name, message: `not a field of model ${model.path}.${hint}` });
+      continue;
+    }
+    if (Array.isArray(value) && !field.multiple && value.length > 1) {
+      errors.push({ field: name, message: 'field is single-valued but an array was given' });
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      const message = validateFieldValue(field, item);
+      if (message) errors.push({ field: name, message });
+    }
+  }
+
+  if (!partial) {
+    for (const field of model.fields) {
+      const value = values[field.name];
+      if (field.required && (value === undefined || value === '' || (Array.isArray(value) && value.length === 0))) {
+        errors.push({ field: field.name, message: 'required field is missing' });
+      }
+    }
+  }
+  return errors;
+}
+
+function formatFieldErrors(target: string, errors: FieldError[]): string {
+  return `Validation failed for ${target}:\n${errors.map((e) => `  - ${e.field}: ${e.message}`).join('\n')}`;
+}
+
+// Splits fragment-level properties from model fields in the Assets HTTP API shape
+function toFragmentPayload(
+  model: ContentFragmentModel | null,
+  values: Record<string, string | string[]>
+): Record<string, unknown> {
+  if (!model) return values;
+  const properties: Record<string, unknown> = {};
+  const elements: Record<string, { value: string | string[] }> = {};
+  for (const [name, value] of Object.entries(values)) {
+    if (FRAGMENT_PROPERTIES.has(name)) {
+      properties[name.replace(/^jcr:/, '')] = value;
+    } else {
+      elements[name] = { value };
+    }
+  }
+  if (Object.keys(elements).length > 0) properties.elements = elements;
+  return properties;
+}
+
+export async function createContentFragment(
+  parentPath: string,
+  name: string,
+  modelPath: string,
+  title: string,
+  description?: string,
+  fields: Record<string, string | string[]> = {},
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const hasFields = Object.keys(fields).length > 0;
+  // Validate before creating so a bad field doesn't leave a half-filled fragment
+  // behind. Legacy fragment templates have no model to validate against; their
+  // fields are written as given.
+  const model = hasFields ? await readFragmentModel(modelPath, environment) : null;
+  if (model) {
+    const errors = validateFragmentFields(model, fields);
+    if (errors.length > 0) throw new Error(formatFieldErrors(`${parentPath}/${name}`, errors));
+  }
+
+  const body: Record<string, string> = {
+    'jcr:title': title,
+    template: modelPath,
+  };
+  if (description) body['jcr:description'] = description;
+
+  const formData = new URLSearchParams({ ...body, _charset_: 'utf-8' });
+
+  const response = await aemFormPost(env, `/api/assets${parentPath}/${name}`, formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'create content fragment');
+  }
+  const created = await response.json();
+
+  if (hasFields) {
+    await aemRequest(env, `/api/assets${parentPath}/${name}`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        class: 'asset',
+        properties: toFragmentPayload(model, fields),
+      }),
+    });
+  }
+  return created;
+}
+
+export async function updateContentFragment(
+  fragmentPath: string,
+  properties: Record<string, string | string[]>,
+  versionFirst?: boolean,
+  environment?: string
+): Promise<unknown> {
+  const model = await getFragmentModelOf(fragmentPath, environment);
+  if (model) {
+    const errors = validateFragmentFields(model, properties, true);
+    if (errors.length > 0) throw new Error(formatFieldErrors(fragmentPath, errors));
+  }
+
+  await createAutoVersion(fragmentPath, versionFirst, environment);
+
+  return aemRequest(getEnvironment(environment), `/api/assets${fragmentPath}`, {
+    method: 'PUT',
+    body: JSON.stringify({
+      class: 'asset',
+      properties: toFragmentPayload(model, properties),
+    }),
+  });
+}
+
+// ─── Content Fragment Variations ─────────────────────────────────────────────
+
+export interface FragmentVariation {
+  name: string;
+  title?: string;
+  description?: string;
+}
+
+export interface ResolveFragmentOptions {
+  variation?: string;
+  // How many levels of fragment/content references to inline (0 = none)
+  depth?: number;
+}
+
+const MASTER_VARIATION = 'master';
+
+// Sling POST type hints so numbers, booleans and dates keep their JCR types
+function fieldTypeHint(field: ContentFragmentField): string | undefined {
+  const type = `${field.dataType} ${field.valueType ?? ''}`;
+  const suffix = field.multiple ? '[]' : '';
+  if (/long/.test(type)) return `Long${suffix}`;
+  if (/double|number/.test(type)) return `Double${suffix}`;
+  if (/boolean/.test(type)) return `Boolean${suffix}`;
+  if (/date|calendar/.test(type)) return `Date${suffix}`;
+  return undefined;
+}
+
+export async function listFragmentVariations(fragmentPath: string, environment?: string): Promise<FragmentVariation[]> {
+  let variations: Record<string, unknown>;
+  try {
+    variations = await aemRequest<Record<string, unknown>>(
+      getEnvironment(environment),
+      `${fragmentPath}/jcr:content/model/variations.1.json`
+    );
+  } catch {
+    // Fragments without variations have no variations node
+    return [];
+  }
+  return Object.entries(variations)
+    .filter(([, node]) => node && typeof node === 'object')
+    .map(([name, node]) => ({
+      name,
+      title: (node as Record<string, unknown>)['jcr:title'] as string | undefined,
+      description: (node as Record<string, unknown>)['jcr:description'] as string | undefined,
+    }));
+}
+
+async function slingPost(env: AemEnvironment, path: string, formData: URLSearchParams, label: string): Promise<void> {
+  formData.set('_charset_', 'utf-8');
+  const response = await aemFormPost(env, path, formData);
+  if (!response.ok) {
+    throw await responseError(env, response, label);
+  }
+}
+
+export async function updateFragmentVariation(
+  fragmentPath: string,
+  variation: string,
+  values: Record<string, string | string[]>,
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const model = await getFragmentModelOf(fragmentPath, environment);
+  const formData = new URLSearchParams();
+  appendProperties(formData, values);
+
+  if (model) {
+    const errors = validateFragmentFields(model, values, true);
+    if (errors.length > 0) throw new Error(formatFieldErrors(`${fragmentPath} (${variation})`, errors));
+    for (const field of model.fields) {
+      const hint = fieldTypeHint(field);
+      if (hint && field.name in values) formData.set(`${field.name}@TypeHint`, hint);
+    }
+  }
+
+  await slingPost(env, `${fragmentPath}/jcr:content/data/${variation}`, formData, 'update variation');
+  return { success: true, path: fragmentPath, variation };
+}
+
+// Creates the variation from a copy of master, then applies any overrides
+export async function createFragmentVariation(
+  fragmentPath: string,
+  name: string,
+  title: string,
+  description?: string,
+  values: Record<string, string | string[]> = {},
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const contentPath = `${fragmentPath}/jcr:content`;
+
+  const metadata = new URLSearchParams({ 'jcr:primaryType': 'nt:unstructured', 'jcr:title': title });
+  if (description) metadata.set('jcr:description', description);
+  await slingPost(env, `${contentPath}/model/variations/${name}`, metadata, 'create variation');
+
+  const copy = new URLSearchParams({ ':operation': 'copy', ':dest': `${contentPath}/data/${name}` });
+  await slingPost(env, `${contentPath}/data/${MASTER_VARIATION}`, copy, 'create variation');
+
+  if (Object.keys(values).length > 0) {
+    await updateFragmentVariation(fragmentPath, name, values, environment);
+  }
+  return { success: true, path: fragmentPath, variation: name };
+}
+
+export async function deleteFragmentVariation(
+  fragmentPath: string,
+  variation: string,
+  environment?: string
+): Promise<unknown> {
+  if (variation === MASTER_VARIATION) throw new Error('The master variation cannot be deleted');
+
+  const contentPath = `${fragmentPath}/jcr:content`;
+  const formData = new URLSearchParams({ ':operation': 'delete' });
+  formData.append(':applyTo', `${contentPath}/model/variations/${variation}`);
+  formData.append(':applyTo', `${contentPath}/data/${variation}`);
+
+  await slingPost(getEnvironment(environment), contentPath, formData, 'delete variation');
+  return { success: true, path: fragmentPath, variation };
+}
+
+async function resolveContentReference(path: string, environment?: string): Promise<unknown> {
+  const env = getEnvironment(environment);
+  try {
+    if (path.startsWith('/content/dam/')) {
+      const metadata = await aemRequest<Record<string, unknown>>(env, `${path}/jcr:content/metadata.json`);
+      return { path, title: metadata['dc:title'], format: metadata['dc:format'], description: metadata['dc:description'] };
+    }
+    const content = await aemRequest<Record<string, unknown>>(env, `${path}/jcr:content.json`);
+    return { path, title: content['jcr:title'], description: content['jcr:description'] };
+  } catch (err) {
+    return { path, error: String(err) };
+  }
+}
+
+async function resolveFragment(
+  fragmentPath: string,
+  variation: string,
+  depth: number,
+  visited: Set<string>,
+  environment?: string
+): Promise<ContentFragment> {
+  const env = getEnvironment(environment);
+  visited.add(fragmentPath);
+
+  const [content, data] = await Promise.all([
+    aemRequest<Record<string, unknown>>(env, `${fragmentPath}/jcr:content.json`),
+    aemRequest<Record<string, unknown>>(env, `${fragmentPath}/jcr:content/data.2.json`),
+  ]);
+  const modelPath = data['cq:model'] as string | undefined;
+  // The model only adds field types. Fragments whose model was deleted or cannot
+  // be read (e.g. without access to /conf) are returned with untyped fields.
+  const model = modelPath ? await getContentFragmentModel(modelPath, environment).catch(() => null) : null;
+
+  const master = (data[MASTER_VARIATION] ?? {}) as Record<string, unknown>;
+  const selected = (data[variation] ?? {}) as Record<string, unknown>;
+  if (variation !== MASTER_VARIATION && !data[variation]) {
+    throw new Error(`Variation "${variation}" does not exist on ${fragmentPath}`);
+  }
+
+  const definitions: ContentFragmentField[] = model?.fields ??
+    Object.keys(master)
+      .filter((key) => !key.startsWith('jcr:') && !key.includes('@'))
+      .map((name) => ({ name, dataType: 'unknown', multiple: Array.isArray(master[name]), required: false }));
+
+  const fields: FragmentFieldValue[] = [];
+  for (const field of definitions) {
+    const fromVariation = field.name in selected;
+    let value: unknown = fromVariation ? selected[field.name] : master[field.name];
+
+    if (depth > 0 && value !== undefined && /reference/.test(field.dataType)) {
+      const paths = Array.isArray(value) ? value.map(String) : [String(value)];
+      const resolved = await Promise.all(paths.map((ref) =>
+        field.dataType === 'fragmentreference' && !visited.has(ref)
+          ? resolveFragment(ref, MASTER_VARIATION, depth - 1, visited, environment).catch((err) => ({ path: ref, error: String(err) }))
+          : resolveContentReference(ref, environment)
+      ));
+      value = Array.isArray(value) ? resolved : resolved[0];
+    }
+
+    fields.push({
+      name: field.name,
+      type: field.dataType,
+      multiple: field.multiple,
+      value,
+      source: fromVariation ? variation : MASTER_VARIATION,
+    });
+  }
+
+  return contentFragmentSchema.parse({
+    path: fragmentPath,
+    title: content['jcr:title'],
+    model: modelPath,
+    variation,
+    fields,
+  });
+}
+
+// Reads a fragment as normalized fields, optionally from a variation and with
+// referenced fragments and assets inlined
+export async function getResolvedContentFragment(
+  fragmentPath: string,
+  options: ResolveFragmentOptions = {},
+  environment?: string
+): Promise<ContentFragment> {
+  return resolveFragment(fragmentPath, options.variation ?? MASTER_VARIATION, options.depth ?? 0, new Set(), environment);
+}
+
+// ─── GraphQL ─────────────────────────────────────────────────────────────────
+
+const GRAPHQL_ROOT = '/content/cq:graphql';
+
+export interface GraphqlEndpoint {
+  name: string;
+  path: string;
+  url: string;
+}
+
+// Accepts a configuration name (e.g. "mysite", "global") or a full endpoint path
+function graphqlEndpointPath(endpoint: string): string {
+  if (endpoint.startsWith('/')) return endpoint.replace(/\.json$/, '');
+  return `${GRAPHQL_ROOT}/${endpoint}/endpoint`;
+}
+
+export async function listGraphqlEndpoints(environment?: string): Promise<GraphqlEndpoint[]> {
+  const data = await aemRequest<Record<string, unknown>>(getEnvironment(environment), `${GRAPHQL_ROOT}.2.json`);
+  return Object.entries(data)
+    .filter(([, config]) => config && typeof config === 'object' && 'endpoint' in (config as Record<string, unknown>))
+    .map(([name]) => ({
+      name,
+      path: `${GRAPHQL_ROOT}/${name}/endpoint`,
+      url: `${GRAPHQL_ROOT}/${name}/endpoint.json`,
+    }));
+}
+
+// Returns the endpoint's schema in GraphQL SDL
+export async function getGraphqlSchema(endpoint: string, environment?: string): Promise<string> {
+  return aemRequest<string>(getEnvironment(environment), `${graphqlEndpointPath(endpoint)}.GQLschema`, {
+    headers: { Accept: 'text/plain' },
+  });
+}
+
+export async function runGraphqlQuery(
+  endpoint: string,
+  query: string,
+  variables?: Record<string, unknown>,
+  environment?: string
+): Promise<unknown> {
+  return aemRequest(getEnvironment(environment), `${graphqlEndpointPath(endpoint)}.json`, {
+    method: 'POST',
+    body: JSON.stringify({ query, variables: variables ?? {} }),
+  }, { label: 'GraphQL query', idempotent: true });
+}
+
+export async function listPersistedQueries(environment?: string): Promise<unknown> {
+  return aemRequest(getEnvironment(environment), '/graphql/list.json');
+}
+
+// Persisted queries are addressed as <configuration>/<query-name>, e.g. mysite/all-articles
+export function persistedQueryPath(queryPath: string): string {
+  const [configuration, ...name] = queryPath.replace(/^\//, '').split('/');
+  return `/conf/${configuration}/settings/graphql/persistentQueries/${name.join('/')}`;
+}
+
+async function persistQuery(
+  method: 'PUT' | 'POST',
+  queryPath: string,
+  query: string,
+  maxAge?: number,
+  environment?: string
+): Promise<unknown> {
+  const body: Record<string, unknown> = { query };
+  if (maxAge !== undefined) body['cache-control'] = { 'max-age': maxAge };
+
+  return aemRequest(getEnvironment(environment), `/graphql/persist.json/${queryPath}`, {
+    method,
+    body: JSON.stringify(body),
+  });
+}
+
+export async function createPersistedQuery(
+  queryPath: string,
+  query: string,
+  maxAge?: number,
+  environment?: string
+): Promise<unknown> {
+  return persistQuery('PUT', queryPath, query, maxAge, environment);
+}
+
+export async function updatePersistedQuery(
+  queryPath: string,
+  query: string,
+  maxAge?: number,
+  environment?: string
+): Promise<unknown> {
+  return persistQuery('POST', queryPath, query, maxAge, environment);
+}
+
+// Variables are passed the way front-ends call the cached GET endpoint:
+// /graphql/execute.json/mysite/article-by-slug;slug=hello
+export async function executePersistedQuery(
+  queryPath: string,
+  variables: Record<string, string | number | boolean> = {},
+  environment?: string
+): Promise<unknown> {
+  const params = Object.entries(variables)
+    .map(([key, value]) => `;${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('');
+  return aemRequest(getEnvironment(environment), `/graphql/execute.json/${queryPath}${params}`);
+}
+
+// ─── Versions ────────────────────────────────────────────────────────────────
+
+export interface VersionInfo {
+  id: string;
+  name: string;
+  label?: string;
+  comment?: string;
+  created?: string;
+  author?: string;
+}
+
+// Works for pages, assets and content fragments alike
+export async function createVersion(
+  path: string,
+  label?: string,
+  comment?: string,
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const formData = new URLSearchParams({
+    cmd: 'createVersion',
+    path,
+    _charset_: 'utf-8',
+  });
+  if (label) formData.set('label', label);
+  if (comment) formData.set('comment', comment);
+
+  const response = await aemFormPost(env, '/bin/wcmcommand', formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'create version', path);
+  }
+  return { success: true, path, label };
+}
+
+// Creates a safety-net version before a write when requested, or when the
+// environment has AUTO_VERSION enabled. Returns the label used, if any.
+async function createAutoVersion(path: string, versionFirst?: boolean, environment?: string): Promise<string | undefined> {
+  if (!(versionFirst ?? getEnvironment(environment).autoVersion)) return undefined;
+  const label = `Before MCP update ${new Date().toISOString()}`;
+  await createVersion(path, label, 'Created automatically before an update through the AEM MCP server', environment);
+  return label;
+}
+
+export async function listVersions(path: string, environment?: string): Promise<VersionInfo[]> {
+  const query = new URLSearchParams({ path, _charset_: 'utf-8' });
+  const data = await aemRequest<{ versions?: Array<Record<string, unknown>> }>(
+    getEnvironment(environment),
+    `/bin/wcm/versions.json?${query.toString()}`
+  );
+  return (data.versions ?? [])
+    .filter((version) => version.deleted !== true)
+    .map((version) => ({
+      id: String(version.id),
+      name: String(version.name ?? version.label ?? version.id),
+      label: version.label as string | undefined,
+      comment: version.comment as string | undefined,
+      created: version.created as string | undefined,
+      author: (version.createdBy ?? version.author) as string | undefined,
+    }));
+}
+
+// Reads the frozen content of a version through Sling's ;v= version selector
+export async function getVersionContent(
+  path: string,
+  versionName: string,
+  environment?: string
+): Promise<unknown> {
+  return aemRequest(getEnvironment(environment), `${path}/jcr:content;v=${encodeURIComponent(versionName)}.infinity.json`);
+}
+
+export async function restoreVersion(
+  pagePath: string,
+  versionId: string,
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const formData = new URLSearchParams({
+    cmd: 'restoreVersion',
+    path: pagePath,
+    id: versionId,
+    _charset_: 'utf-8',
+  });
+
+  const response = await aemFormPost(env, '/bin/wcmcommand', formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'restore version', pagePath);
+  }
+  return { success: true, path: pagePath, restoredVersion: versionId };
+}
+
+// ─── Replication ─────────────────────────────────────────────────────────────
+
+export interface TreeReplicationOptions {
+  action?: ReplicationAction;
+  includeChildren?: boolean;
+  // Only pages modified since their last replication (or never replicated)
+  onlyModified?: boolean;
+  // Only pages whose last replication action was Activate
+  onlyActivated?: boolean;
+  dryRun?: boolean;
+}
+
+export async function getReplicationStatus(path: string, environment?: string): Promise<ReplicationStatus> {
+  const content = await aemRequest<Record<string, unknown>>(getEnvironment(environment), `${path}/jcr:content.json`);
+  return toReplicationStatus(path, content);
+}
+
+export async function replicatePage(
+  path: string,
+  action: ReplicationAction = 'Activate',
+  environment?: string
+): Promise<ReplicationResult> {
+  const env = getEnvironment(environment);
+  const formData = new URLSearchParams({
+    cmd: action,
+    path,
+    _charset_: 'utf-8',
+  });
+
+  const response = await aemFormPost(env, '/bin/replicate.json', formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'replication', path);
+  }
+
+  // The replicate servlet answers 200 once the request is queued; confirm the
+  // node's replication status actually recorded the action.
+  let verified: boolean | undefined;
+  try {
+    const status = await getReplicationStatus(path, environment);
+    verified = status.lastReplicationAction === action;
+  } catch {
+    verified = undefined;
+  }
+  return { path, action, success: true, verified };
+}
+
+// Replicates each path separately so one failure doesn't hide the others
+export async function replicatePaths(
+  paths: string[],
+  action: ReplicationAction = 'Activate',
+  environment?: string
+): Promise<ReplicationResult[]> {
+  const results: ReplicationResult[] = [];
+  for (const path of paths) {
+    try {
+      results.push(await replicatePage(path, action, environment));
+    } catch (err) {
+      results.push({ path, action, success: false, error: String(err) });
+    }
+  }
+  return results;
+}
+
+export async function replicateTree(
+  rootPath: string,
+  options: TreeReplicationOptions = {},
+  environment?: string
+): Promise<TreeReplicationResult> {
+  const action = options.action ?? 'Activate';
+  const includeChildren = options.includeChildren ?? true;
+
+  let candidates: ReplicationStatus[];
+  if (includeChildren) {
+    // Query the jcr:content nodes so replication properties come back with each hit
+    const result = await searchContent({
+      path: rootPath,
+      type: 'cq:PageContent',
+      limit: -1,
+      'p.hits': 'full',
+      'p.nodedepth': 0,
+    }, environment) as { hits?: Array<Record<string, unknown>> };
+    candidates = (result.hits ?? []).map((hit) =>
+      toReplicationStatus(parentPath(String(hit['jcr:path'])), hit)
+    );
+    if (!candidates.some((c) => c.path === rootPath)) {
+      candidates.unshift(await getReplicationStatus(rootPath, environment));
+    }
+  } else {
+    candidates = [await getReplicationStatus(rootPath, environment)];
+  }
+
+  const selected = candidates.filter((c) =>
+    (!options.onlyModified || c.modifiedSinceReplication) &&
+    (!options.onlyActivated || c.lastReplicationAction === 'Activate')
+  );
+  const paths = selected.map((c) => c.path).sort();
+
+  if (options.dryRun) {
+    return { rootPath, action, dryRun: true, matched: paths.length, skipped: candidates.length - paths.length, paths };
+  }
+
+  const results = await replicatePaths(paths, action, environment);
+  return {
+    rootPath,
+    action,
+    dryRun: false,
+    matched: results.length,
+    succeeded: results.filter((r) => r.success).length,
+    failed: results.filter((r) => !r.success).length,
+    skipped: candidates.length - paths.length,
+    results,
+  };
+}
+
+export interface QueueItem {
+  id?: string;
+  path?: string;
+  action?: string;
+  time?: string | number;
+  user?: string;
+  attempts?: number;
+}
+
+export interface AgentQueue {
+  agent: string;
+  type: 'replication' | 'distribution';
+  state?: string;
+  blocked: boolean;
+  size: number;
+  // Items that have already been retried at least once
+  stuckItems: QueueItem[];
+  items: QueueItem[];
+}
+
+const MAX_QUEUE_ITEMS = 50;
+
+// AEM 6.5: classic replication agents under /etc/replication/agents.author
+async function getReplicationAgentQueues(env: AemEnvironment, agentName?: string): Promise<AgentQueue[]> {
+  const agentsPath = '/etc/replication/agents.author';
+  const agents = await aemRequest<Record<string, unknown>>(env, `${agentsPath}.1.json`);
+  const names = Object.keys(agents)
+    .filter((name) => agents[name] && typeof agents[name] === 'object')
+    .filter((name) => !agentName || name === agentName);
+
+  return Promise.all(names.map(async (name) => {
+    const data = await aemRequest<{
+      metaData?: { queueStatus?: { isBlocked?: boolean } };
+      queue?: Array<Record<string, unknown>>;
+    }>(env, `${agentsPath}/${name}/jcr:content.queue.json`);
+    const items: QueueItem[] = (data.queue ?? []).map((item) => ({
+      id: item.id as string | undefined,
+      path: item.path as string | undefined,
+      action: item.type as string | undefined,
+      time: item.time as string | undefined,
+      user: item.userid as string | undefined,
+      attempts: item.numProcessed as number | undefined,
+    }));
+    return {
+      agent: name,
+      type: 'replication' as const,
+      blocked: data.metaData?.queueStatus?.isBlocked ?? false,
+      size: items.length,
+      stuckItems: items.filter((item) => (item.attempts ?? 0) > 0),
+      items: items.slice(0, MAX_QUEUE_ITEMS),
+    };
+  }));
+}
+
+// AEMaaCS: Sling Content Distribution agents
+async function getDistributionAgentQueues(env: AemEnvironment, agentName?: string): Promise<AgentQueue[]> {
+  const servicesPath = '/libs/sling/distribution/services/agents';
+  const agents = await aemRequest<{ items?: string[] }>(env, `${servicesPath}.json`);
+  const names = (agents.items ?? []).filter((name) => !agentName || name === agentName);
+
+  const results: AgentQueue[] = [];
+  for (const name of names) {
+    const agent = await aemRequest<{ state?: string; queues?: { items?: string[] } }>(
+      env,
+      `${servicesPath}/${name}.json`
+    );
+    const items: QueueItem[] = [];
+    let blocked = false;
+    for (const queueName of agent.queues?.items ?? []) {
+      const queue = await aemRequest<{ state?: string; items?: Array<Record<string, unknown>> }>(
+        env,
+        `${servicesPath}/${name}/queues/${queueName}.json`
+      );
+      if (queue.state === 'BLOCKED') blocked = true;
+      for (const item of queue.items ?? []) {
+        items.push({
+          id: item.id as string | undefined,
+          path: (item.paths as string[] | undefined)?.join(', ') ?? item.path as string | undefined,
+          action: item.action as string | undefined,
+          time: item.time as string | number | undefined,
+          user: item.userid as string | undefined,
+          attempts: item.attempts as number | undefined,
+        });
+      }
+    }
+    results.push({
+      agent: name,
+      type: 'distribution',
+      state: agent.state,
+      blocked: blocked || agent.state === 'BLOCKED',
+      size: items.length,
+      stuckItems: items.filter((item) => (item.attempts ?? 0) > 0),
+      items: items.slice(0, MAX_QUEUE_ITEMS),
+    });
+  }
+  return results;
+}
+
+export async function getReplicationQueues(agentName?: string, environment?: string): Promise<AgentQueue[]> {
+  const env = getEnvironment(environment);
+  // Sling Content Distribution only exists on AEMaaCS; fall back to classic agents on 6.5
+  try {
+    return await getDistributionAgentQueues(env, agentName);
+  } catch {
+    return getReplicationAgentQueues(env, agentName);
+  }
+}
+
+// ─── Multi Site Manager ──────────────────────────────────────────────────────
+
+const LIVE_SYNC_CANCELLED = 'cq:LiveSyncCancelled';
+
+export interface LiveCopyTarget {
+  path: string;
+  liveCopyRoot: string;
+  deep: boolean;
+  rolloutConfigs: string[];
+}
+
+export interface LiveRelationships {
+  path: string;
+  isLiveCopy: boolean;
+  source?: string;
+  liveCopyRoot?: string;
+  rolloutConfigs: string[];
+  suspended: boolean;
+  cancelledInheritance: Array<{ path: string; cancelledForChildren: boolean }>;
+  liveCopies: LiveCopyTarget[];
+}
+
+export type InheritanceAction = 'suspend' | 'resume' | 'cancel';
+
+function mixinsOf(node: Record<string, unknown>): string[] {
+  const mixins = node['jcr:mixinTypes'];
+  return Array.isArray(mixins) ? mixins.map(String) : [];
+}
+
+function collectCancelled(
+  node: Record<string, unknown>,
+  path: string,
+  results: Array<{ path: string; cancelledForChildren: boolean }>
+): void {
+  for (const [name, value] of Object.entries(node)) {
+    if (!value || typeof value !== 'object' || Array.isArray(value) || name === 'cq:LiveSyncConfig') continue;
+    const child = value as Record<string, unknown>;
+    if (mixinsOf(child).includes(LIVE_SYNC_CANCELLED)) {
+      results.push({ path: `${path}/${name}`, cancelledForChildren: child['cq:isCancelledForChildren'] === true });
+    }
+    collectCancelled(child, `${path}/${name}`, results);
+  }
+}
+
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : typeof value === 'string' ? [value] : [];
+}
+
+// Finds the closest ancestor-or-self carrying a cq:LiveSyncConfig, i.e. the live copy root
+async function findLiveSyncConfig(
+  env: AemEnvironment,
+  pagePath: string
+): Promise<{ root: string; config: Record<string, unknown> } | null> {
+  for (let path = pagePath; path.split('/').length > 2; path = parentPath(path)) {
+    try {
+      const config = await aemRequest<Record<string, unknown>>(env, `${path}/jcr:content/cq:LiveSyncConfig.json`);
+      return { root: path, config };
+    } catch {
+      // Not a live copy root; keep walking up
+    }
+  }
+  return null;
+}
+
+// Live copies are looked up below searchPath, by default the page's site
+// (/content/<site>); pass /content for live copies in other sites
+export async function getLiveRelationships(
+  pagePath: string,
+  searchPath?: string,
+  environment?: string
+): Promise<LiveRelationships> {
+  const env = getEnvironment(environment);
+  const content = await aemRequest<Record<string, unknown>>(env, `${pagePath}/jcr:content.infinity.json`);
+
+  const cancelledInheritance: Array<{ path: string; cancelledForChildren: boolean }> = [];
+  collectCancelled(content, `${pagePath}/jcr:content`, cancelledInheritance);
+
+  const sync = await findLiveSyncConfig(env, pagePath);
+  const master = sync?.config['cq:master'] as string | undefined;
+
+  // Live copies of this page: live sync configs whose master is the page or,
+  // for deep live copies, one of its ancestors
+  const segments = pagePath.split('/');
+  const masters = segments.slice(3).map((_, i) => segments.slice(0, segments.length - i).join('/'));
+  const params: QueryBuilderParams = {
+    path: searchPath ?? segments.slice(0, 3).join('/'),
+    type: 'cq:LiveSyncConfig',
+    limit: -1,
+    'p.hits': 'full',
+    'p.nodedepth': 0,
+    property: 'cq:master',
+  };
+  masters.forEach((master, i) => { params[`property.${i + 1}_value`] = master; });
+  const configs = await searchContent(params, environment) as { hits?: Array<Record<string, unknown>> };
+
+  const liveCopies: LiveCopyTarget[] = [];
+  for (const hit of configs.hits ?? []) {
+    const hitMaster = String(hit['cq:master'] ?? '');
+    const deep = hit['cq:isDeep'] !== false;
+    const covers = pagePath === hitMaster || (deep && pagePath.startsWith(`${hitMaster}/`));
+    if (!hitMaster || !covers) continue;
+    // .../<live copy root>/jcr:content/cq:LiveSyncConfig
+    const liveCopyRoot = parentPath(parentPath(String(hit['jcr:path'])));
+    liveCopies.push({
+      path: `${liveCopyRoot}${pagePath.slice(hitMaster.length)}`,
+      liveCopyRoot,
+      deep,
+      rolloutConfigs: toStrings(hit['cq:rolloutConfigs']),
+    });
+  }
+
+  return {
+    path: pagePath,
+    isLiveCopy: !!sync,
+    source: sync && master ? `${master}${pagePath.slice(sync.root.length)}` : undefined,
+    liveCopyRoot: sync?.root,
+    rolloutConfigs: toStrings(sync?.config['cq:rolloutConfigs']),
+    suspended: mixinsOf(content).includes(LIVE_SYNC_CANCELLED),
+    cancelledInheritance,
+    liveCopies,
+  };
+}
+
+// The pages a rollout without explicit targets writes to
+export async function liveCopyPaths(blueprintPath: string, environment?: string): Promise<string[]> {
+  return (await getLiveRelationships(blueprintPath, undefined, environment)).liveCopies.map((copy) => copy.path);
+}
+
+export async function rolloutPage(
+  blueprintPath: string,
+  targetPaths: string[] = [],
+  deep = false,
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  // Without explicit targets, roll out to every live copy of the page
+  const targets = targetPaths.length > 0 ? targetPaths : await liveCopyPaths(blueprintPath, environment);
+  if (targets.length === 0) throw new Error(`${blueprintPath} has no live copies to roll out to`);
+
+  const formData = new URLSearchParams({
+    cmd: 'rollout',
+    path: blueprintPath,
+    type: deep ? 'deep' : 'page',
+    'msm:async': 'false',
+    _charset_: 'utf-8',
+  });
+  for (const target of targets) formData.append('msm:targetPath', target);
+
+  const response = await aemFormPost(env, '/bin/wcmcommand', formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'rollout', blueprintPath);
+  }
+  return { success: true, blueprint: blueprintPath, deep, targets };
+}
+
+// suspend: stop syncing a live copy page; cancel: break inheritance of a component
+// (and its children); resume: re-enable inheritance. Takes effect on the next rollout.
+// The node that carries the inheritance state: the component itself, or the jcr:content of a page
+export function inheritanceNodePath(path: string): string {
+  return path.includes('/jcr:content') ? path : `${path}/jcr:content`;
+}
+
+export async function setInheritance(
+  path: string,
+  action: InheritanceAction,
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const nodePath = inheritanceNodePath(path);
+  const node = await aemRequest<Record<string, unknown>>(env, `${nodePath}.json`);
+  const mixins = mixinsOf(node).filter((mixin) => mixin !== LIVE_SYNC_CANCELLED);
+
+  const formData = new URLSearchParams({ _charset_: 'utf-8' });
+  if (action === 'resume') {
+    formData.set('cq:isCancelledForChildren@Delete', '');
+  } else {
+    mixins.push(LIVE_SYNC_CANCELLED);
+    formData.set('cq:isCancelledForChildren', action === 'cancel' ? 'true' : 'false');
+    formData.set('cq:isCancelledForChildren@TypeHint', 'Boolean');
+  }
+  if (mixins.length > 0) {
+    for (const mixin of mixins) formData.append('jcr:mixinTypes', mixin);
+  } else {
+    formData.set('jcr:mixinTypes@Delete', '');
+  }
+
+  const response = await aemFormPost(env, nodePath, formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, `${action} inheritance`);
+  }
+  return { success: true, path: nodePath, action };
+}
+
+// ─── Language Copies & Translation ───────────────────────────────────────────
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+const regionNames = new Intl.DisplayNames(['en'], { type: 'region', fallback: 'none' });
+
+function isKnownCode(names: Intl.DisplayNames, code: string): boolean {
+  try {
+    return code.length <= 10 && names.of(code) !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+// Page names that are language codes such as en, de, fr_ca or pt-br. Unknown
+// codes like faq or app are not.
+function isLanguageName(name: string): boolean {
+  return isKnownCode(languageNames, name.replace('_', '-'));
+}
+
+const TRANSLATION_PROJECT_TEMPLATE = '/libs/cq/core/content/projects/templates/translation-project';
+
+export interface LanguageRoot {
+  locale: string;
+  path: string;
+}
+
+export interface TranslationProjectOptions {
+  title: string;
+  pages: string[];
+  sourceLanguage: string;
+  targetLanguage: string;
+  translationMethod?: 'MACHINE_TRANSLATION' | 'HUMAN_TRANSLATION';
+  translationProvider?: string;
+  // Existing project to add the pages to instead of creating a new one
+  projectPath?: string;
+}
+
+// Finds language roots one or two levels below the site root, covering both
+// /content/site/en and /content/site/us/en (or language-masters/en) layouts.
+// A language root is a page with jcr:language set, or one named for a language.
+export async function listLanguageRoots(sitePath: string, environment?: string): Promise<LanguageRoot[]> {
+  // Three levels reach the jcr:content of pages two levels down
+  const tree = await aemRequest<Record<string, unknown>>(getEnvironment(environment), `${sitePath}.3.json`);
+  const roots: LanguageRoot[] = [];
+
+  const childPages = (node: Record<string, unknown>) => Object.entries(node)
+    .filter(([, child]) => !!child && typeof child === 'object' &&
+      (child as Record<string, unknown>)['jcr:primaryType'] === 'cq:Page')
+    .map(([name, child]) => [name, child as Record<string, unknown>] as const);
+  const languageOf = (name: string, page: Record<string, unknown>) => {
+    const language = (page['jcr:content'] as Record<string, unknown> | undefined)?.['jcr:language'];
+    return typeof language === 'string' && language ? language : isLanguageName(name) ? name : undefined;
+  };
+
+  for (const [name, page] of childPages(tree)) {
+    const language = (page['jcr:content'] as Record<string, unknown> | undefined)?.['jcr:language'];
+    if (typeof language === 'string' && language) {
+      roots.push({ locale: language, path: `${sitePath}/${name}` });
+      continue;
+    }
+
+    // A country folder (e.g. us, or ch, which is also a language code) or
+    // language-masters holds language roots; otherwise a page named for a
+    // language is a root itself
+    const languages = childPages(page)
+      .map(([childName, child]) => [childName, languageOf(childName, child)] as const)
+      .filter((entry): entry is readonly [string, string] => !!entry[1]);
+    const folder = languages.length > 0 && (!isLanguageName(name) || isKnownCode(regionNames, name.toUpperCase()));
+    if (!folder) {
+      if (isLanguageName(name)) roots.push({ locale: name, path: `${sitePath}/${name}` });
+      continue;
+    }
+    for (const [childName, childLanguage] of languages) {
+      const locale = childLanguage !== childName || name === 'language-masters' ? childLanguage : `${childLanguage}_${name}`;
+      roots.push({ locale, path: `${sitePath}/${name}/${childName}` });
+    }
+  }
+  return roots;
+}
+
+async function listRelativePages(rootPath: string, environment?: string): Promise<string[]> {
+  const result = await searchContent({
+    path: rootPath,
+    type: 'cq:Page',
+    limit: -1,
+    'p.hits': 'selective',
+    'p.properties': 'jcr:path',
+  }, environment) as { hits?: Array<{ 'jcr:path': string }> };
+  return (result.hits ?? []).map((hit) => hit['jcr:path'].slice(rootPath.length));
+}
+
+// Reports, per locale, the pages (relative to the language root) that exist in
+// another locale (or in the reference locale only) but not in this one
+export async function findMissingLanguagePages(
+  sitePath: string,
+  referenceLocale?: string,
+  environment?: string
+): Promise<unknown> {
+  const roots = await listLanguageRoots(sitePath, environment);
+  const pages = new Map<string, Set<string>>();
+  for (const root of roots) {
+    pages.set(root.locale, new Set(await listRelativePages(root.path, environment)));
+  }
+
+  let expected: Set<string>;
+  if (referenceLocale) {
+    const reference = pages.get(referenceLocale);
+    if (!reference) throw new Error(`No language root for "${referenceLocale}" under ${sitePath}`);
+    expected = reference;
+  } else {
+    expected = new Set([...pages.values()].flatMap((set) => [...set]));
+  }
+
+  return roots.map((root) => {
+    const missing = [...expected].filter((page) => !pages.get(root.locale)!.has(page)).sort();
+    return { locale: root.locale, root: root.path, pageCount: pages.get(root.locale)!.size, missingCount: missing.length, missing };
+  });
+}
+
+// The language root a page is in, from the language roots of its site
+// (/content/<site>) unless given explicitly
+async function languageRootOf(path: string, languageRoot?: string, environment?: string): Promise<{ root: string; roots: LanguageRoot[] }> {
+  const sitePath = path.split('/').slice(0, 3).join('/');
+  const roots = await listLanguageRoots(sitePath, environment).catch(() => []);
+  const root = languageRoot?.replace(/\/$/, '') ??
+    roots.map((r) => r.path).find((rootPath) => path === rootPath || path.startsWith(`${rootPath}/`));
+  if (!root || !(path === root || path.startsWith(`${root}/`))) {
+    throw new Error(`${path} is not below a language root (e.g. /content/mysite/en). Pass the language root explicitly.`);
+  }
+  return { root, roots };
+}
+
+// Where the language copies of a page go: the same path relative to each target
+// root. Target languages are root paths, or names of sibling roots of the source
+// root (e.g. de next to /content/site/us/en), or locales of other roots.
+export async function languageCopyTargets(
+  sourcePath: string,
+  targetLanguages: string[],
+  languageRoot?: string,
+  environment?: string
+): Promise<Array<{ language: string; path: string }>> {
+  const { root, roots } = await languageRootOf(sourcePath, languageRoot, environment);
+  const relative = sourcePath.slice(root.length);
+  return targetLanguages.map((language) => {
+    const sibling = `${parentPath(root)}/${language}`;
+    const targetRoot = language.startsWith('/')
+      ? language.replace(/\/$/, '')
+      : roots.some((r) => r.path === sibling) ? sibling : roots.find((r) => r.locale === language)?.path ?? sibling;
+    return { language, path: `${targetRoot}${relative}` };
+  });
+}
+
+// Copies a page into other language roots, keeping its path relative to the root.
+// The target parent must already exist in each language.
+export async function createLanguageCopies(
+  sourcePath: string,
+  targetLanguages: string[],
+  deep = false,
+  languageRoot?: string,
+  environment?: string
+): Promise<unknown> {
+  const results: Array<{ language: string; path: string; success: boolean; error?: string }> = [];
+
+  for (const { language, path: targetPath } of await languageCopyTargets(sourcePath, targetLanguages, languageRoot, environment)) {
+    try {
+      await copyPage(sourcePath, parentPath(targetPath), { destName: pageName(targetPath), shallow: !deep }, environment);
+      results.push({ language, path: targetPath, success: true });
+    } catch (err) {
+      results.push({ language, path: targetPath, success: false, error: String(err) });
+    }
+  }
+  return results;
+}
+
+// Path of the node a Sling POST created: the Location header, or the path in the
+// JSON or HTML response body
+async function createdPath(response: Response): Promise<string | undefined> {
+  let path = response.headers.get('location') ?? undefined;
+  if (!path) {
+    const body = await response.text();
+    try {
+      const data = JSON.parse(body) as Record<string, unknown>;
+      path = [data.path, data.location].find((value): value is string => typeof value === 'string' && !!value);
+    } catch {
+      path = /<div id="(?:Path|Location)">([^<]+)<\/div>/i.exec(body)?.[1]?.trim();
+    }
+  }
+  return path?.replace(/^https?:\/\/[^/]+/, '').replace(/\.html$/, '') || undefined;
+}
+
+export async function createTranslationProject(
+  options: TranslationProjectOptions,
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  let projectPath = options.projectPath;
+
+  if (!projectPath) {
+    const formData = new URLSearchParams({
+      ':operation': 'projectcreate',
+      'jcr:title': options.title,
+      template: TRANSLATION_PROJECT_TEMPLATE,
+      sourceLanguage: options.sourceLanguage,
+      destinationLanguage: options.targetLanguage,
+      translationMethod: options.translationMethod ?? 'MACHINE_TRANSLATION',
+      _charset_: 'utf-8',
+    });
+    if (options.translationProvider) formData.set('translationProvider', options.translationProvider);
+
+    const response = await aemFormPost(env, '/content/projects', formData);
+    if (!response.ok) {
+      throw await responseError(env, response, 'create translation project');
+    }
+    projectPath = await createdPath(response);
+    if (!projectPath) {
+      throw new Error(
+        `AEM created translation project "${options.title}" but did not report its path. ` +
+        'Find it under /content/projects and pass it as project_path to add the pages.'
+      );
+    }
+  }
+
+  const pages = new URLSearchParams({ ':operation': 'ADD_TRANSLATION_PAGES', _charset_: 'utf-8' });
+  for (const page of options.pages) pages.append('translationpage', page);
+
+  const response = await aemFormPost(env, `${projectPath}/jcr:content/dashboard/gadgets/translationjob`, pages);
+  if (!response.ok) {
+    const error = await responseError(env, response, 'add translation pages', projectPath);
+    error.message = `Translation project ${projectPath} is ready, but adding pages failed. ${error.message}`;
+    throw error;
+  }
+  return {
+    success: true,
+    projectPath,
+    sourceLanguage: options.sourceLanguage,
+    targetLanguage: options.targetLanguage,
+    pages: options.pages,
+  };
+}
+
+// Summarizes cq:translationStatus of the pages in each language root
+export async function getTranslationStatus(sitePath: string, environment?: string): Promise<unknown> {
+  const roots = await listLanguageRoots(sitePath, environment);
+  return Promise.all(roots.map(async (root) => {
+    const result = await searchContent({
+      path: root.path,
+      type: 'cq:PageContent',
+      limit: -1,
+      'p.hits': 'selective',
+      'p.properties': 'jcr:path cq:translationStatus cq:translationSourcePath',
+    }, environment) as { hits?: Array<Record<string, unknown>> };
+
+    const byStatus: Record<string, number> = {};
+    for (const hit of result.hits ?? []) {
+      const status = String(hit['cq:translationStatus'] ?? 'NOT_TRANSLATED');
+      byStatus[status] = (byStatus[status] ?? 0) + 1;
+    }
+    return { locale: root.locale, root: root.path, pages: result.hits?.length ?? 0, byStatus };
+  }));
+}
+
+// ─── Workflows ───────────────────────────────────────────────────────────────
+
+export type WorkflowState = 'RUNNING' | 'SUSPENDED' | 'COMPLETED' | 'ABORTED' | 'FAILED';
+
+export interface WorkflowInstance {
+  id: string;
+  model?: string;
+  title?: string;
+  status: string;
+  payload?: string;
+  initiator?: string;
+  startTime?: string;
+  endTime?: string;
+  failures: string[];
+}
+
+export interface WorkflowStartResult {
+  payload: string;
+  success: boolean;
+  instance?: string;
+  error?: string;
+}
+
+// Parameters of the start request itself, which metadata must not override
+const RESERVED_WORKFLOW_PARAMS = new Set(['model', 'payload', 'payloadType', 'workflowTitle', 'startComment', '_charset_']);
+
+export async function listWorkflowModels(environment?: string): Promise<unknown> {
+  return aemRequest(getEnvironment(environment), '/etc/workflow/models.json');
+}
+
+// Starts one instance per payload so each payload reports its own outcome
+export async function startWorkflow(
+  modelId: string,
+  payloads: string[],
+  title?: string,
+  comment?: string,
+  metadata: Record<string, string> = {},
+  environment?: string
+): Promise<WorkflowStartResult[]> {
+  const env = getEnvironment(environment);
+  const reserved = Object.keys(metadata).filter((key) => RESERVED_WORKFLOW_PARAMS.has(key) || key.startsWith(':'));
+  if (reserved.length > 0) {
+    throw new Error(`Workflow metadata cannot set ${reserved.join(', ')}; use the matching start parameters instead`);
+  }
+  const results: WorkflowStartResult[] = [];
+
+  for (const payload of payloads) {
+    const formData = new URLSearchParams({
+      model: modelId,
+      payloadType: 'JCR_PATH',
+      payload,
+      _charset_: 'utf-8',
+    });
+    if (title) formData.set('workflowTitle', title);
+    if (comment) formData.set('startComment', comment);
+    // Extra parameters are stored on the instance's metadata map
+    for (const [key, value] of Object.entries(metadata)) formData.set(key, value);
+
+    try {
+      const response = await aemFormPost(env, '/etc/workflow/instances', formData);
+      if (!response.ok) {
+        throw await responseError(env, response, 'start workflow', payload);
+      }
+      const location = response.headers.get('location') ?? undefined;
+      results.push({ payload, success: true, instance: location?.replace(/^https?:\/\/[^/]+/, '') });
+    } catch (err) {
+      results.push({ payload, success: false, error: String(err) });
+    }
+  }
+  return results;
+}
+
+// Failure items keep the instance RUNNING; the failure is recorded on the work item metadata
+function collectFailures(instance: Record<string, unknown>): string[] {
+  const workItems = instance.workItems as Record<string, unknown> | undefined;
+  return Object.values(workItems ?? {})
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map((item) => (item.metaData as Record<string, unknown> | undefined)?.failureMessage)
+    .filter((message): message is string => typeof message === 'string');
+}
+
+export async function listWorkflowInstances(
+  payload?: string,
+  state?: WorkflowState,
+  limit = 50,
+  environment?: string
+): Promise<WorkflowInstance[]> {
+  const params: QueryBuilderParams = {
+    path: '/var/workflow/instances',
+    type: 'cq:Workflow',
+    limit,
+    'p.hits': 'full',
+    'p.nodedepth': 4,
+    orderby: '@startTime',
+    'orderby.sort': 'desc',
+  };
+  if (payload) {
+    params['1_property'] = 'data/payload/path';
+    params['1_property.value'] = payload;
+  }
+  if (state) {
+    params['2_property'] = 'status';
+    params['2_property.value'] = state === 'FAILED' ? 'RUNNING' : state;
+  }
+  if (state === 'FAILED') {
+    // Matches workItems/<item>/metaData/failureMessage, so the limit applies to failed instances
+    params['3_property'] = 'metaData/failureMessage';
+    params['3_property.operation'] = 'exists';
+    params['3_property.depth'] = 2;
+  }
+
+  const result = await searchContent(params, environment) as { hits?: Array<Record<string, unknown>> };
+  const instances = (result.hits ?? []).map((hit) => {
+    const data = hit.data as Record<string, unknown> | undefined;
+    const metaData = hit.metaData as Record<string, unknown> | undefined;
+    return {
+      id: String(hit['jcr:path']),
+      model: hit.modelId as string | undefined,
+      title: metaData?.workflowTitle as string | undefined,
+      status: String(hit.status),
+      payload: (data?.payload as Record<string, unknown> | undefined)?.path as string | undefined,
+      initiator: hit.initiator as string | undefined,
+      startTime: hit.startTime as string | undefined,
+      endTime: hit.endTime as string | undefined,
+      failures: collectFailures(hit),
+    };
+  });
+  return state === 'FAILED' ? instances.filter((instance) => instance.failures.length > 0) : instances;
+}
+
+async function setWorkflowState(env: AemEnvironment, instanceId: string, state: string): Promise<void> {
+  const formData = new URLSearchParams({ state, _charset_: 'utf-8' });
+  const response = await aemFormPost(env, instanceId, formData);
+  if (!response.ok) {
+    throw await responseError(env, response, 'workflow state change');
+  }
+}
+
+export async function terminateWorkflow(instanceId: string, environment?: string): Promise<unknown> {
+  await setWorkflowState(getEnvironment(environment), instanceId, 'ABORTED');
+  return { success: true, instance: instanceId, status: 'ABORTED' };
+}
+
+function payloadOf(instance: Record<string, unknown>): string | undefined {
+  const payload = (instance.data as Record<string, unknown> | undefined)?.payload as Record<string, unknown> | undefined;
+  return payload?.path as string | undefined;
+}
+
+// Payload path of a workflow instance, or of the instance a work item belongs to
+export async function getWorkflowPayload(instanceOrWorkItem: string, environment?: string): Promise<string> {
+  const marker = instanceOrWorkItem.indexOf('/workItems/');
+  const instanceId = marker >= 0 ? instanceOrWorkItem.slice(0, marker) : instanceOrWorkItem;
+  const payload = payloadOf(await aemRequest<Record<string, unknown>>(getEnvironment(environment), `${instanceId}.2.json`));
+  if (!payload) throw new Error(`Could not read the payload of workflow ${instanceId}`);
+  return payload;
+}
+
+// Retries by terminating the instance and starting the same model on the same payload
+export async function retryWorkflow(instanceId: string, environment?: string): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const instance = await aemRequest<Record<string, unknown>>(env, `${instanceId}.2.json`);
+  const modelId = instance.modelId as string | undefined;
+  const payload = payloadOf(instance);
+  if (!modelId || !payload) throw new Error(`Could not read the model and payload of workflow ${instanceId}`);
+
+  if (instance.status === 'RUNNING' || instance.status === 'SUSPENDED') {
+    await setWorkflowState(env, instanceId, 'ABORTED');
+  }
+  const [restarted] = await startWorkflow(modelId, [payload], undefined, `Retry of ${instanceId}`, {}, environment);
+  return { previous: instanceId, ...restarted };
+}
+
+export async function listInboxItems(environment?: string): Promise<unknown> {
+  return aemRequest(getEnvironment(environment), '/bin/workflow/inbox.json');
+}
+
+export async function completeWorkItem(
+  workItemPath: string,
+  comment?: string,
+  routeId?: string,
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+
+  let route = routeId;
+  if (!route) {
+    const routes = await aemRequest<Array<{ rid?: string; label?: string }> | { routes?: Array<{ rid?: string }> }>(
+      env,
+      `${workItemPath}.routes.json`
+    );
+    const list = Array.isArray(routes) ? routes : routes.routes ?? [];
+    if (list.length !== 1 || !list[0].rid) {
+      throw new Error(`Work item ${workItemPath} has ${list.length} routes; pass route_id to choose one: ${JSON.stringify(list)}`);
+    }
+    route = list[0].rid;
+  }
+
+  const formData = new URLSearchParams({
+    cmd: 'advance',
+    item: workItemPath,
+    route,
+    _charset_: 'utf-8',
+  });
+  if (comment) formData.set('comment', comment);
+
+  const response = await aemFormPost(env, '/bin/workflow/inbox', formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'complete work item', workItemPath);
+  }
+  return { success: true, workItem: workItemPath, route };
+}
+
+export async function delegateWorkItem(
+  workItemPath: string,
+  delegatee: string,
+  comment?: string,
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const formData = new URLSearchParams({
+    cmd: 'delegate',
+    item: workItemPath,
+    delegatee,
+    _charset_: 'utf-8',
+  });
+  if (comment) formData.set('comment', comment);
+
+  const response = await aemFormPost(env, '/bin/workflow/inbox', formData);
+
+  if (!response.ok) {
+    throw await responseError(env, response, 'delegate work item', workItemPath);
+  }
+  return { success: true, workItem: workItemPath, delegatee };
+}
+
+// ─── Tags ────────────────────────────────────────────────────────────────────
+
+const TAGS_ROOT = '/content/cq:tags';
+
+export interface TagNode {
+  tagId: string;
+  path: string;
+  title: string;
+  description?: string;
+  localizedTitles: Record<string, string>;
+  children: TagNode[];
+}
+
+// Converts "ns:a/b" to /content/cq:tags/ns/a/b; IDs without a namespace live in "default"
+export function tagIdToPath(tagId: string): string {
+  if (tagId.startsWith('/')) return tagId;
+  const separator = tagId.indexOf(':');
+  const namespace = separator >= 0 ? tagId.slice(0, separator) : 'default';
+  const localId = separator >= 0 ? tagId.slice(separator + 1) : tagId;
+  return localId ? `${TAGS_ROOT}/${namespace}/${localId}` : `${TAGS_ROOT}/${namespace}`;
+}
+
+function pathToTagId(path: string): string {
+  const [namespace, ...rest] = path.slice(TAGS_ROOT.length + 1).split('/');
+  return `${namespace}:${rest.join('/')}`;
+}
+
+function toTagNode(path: string, node: Record<string, unknown>, locale?: string): TagNode {
+  const localizedTitles: Record<string, string> = {};
+  const children: TagNode[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith('jcr:title.') && typeof value === 'string') {
+      localizedTitles[key.slice('jcr:title.'.length)] = value;
+    } else if (value && typeof value === 'object' && (value as Record<string, unknown>)['jcr:primaryType'] === 'cq:Tag') {
+      children.push(toTagNode(`${path}/${key}`, value as Record<string, unknown>, locale));
+    }
+  }
+  const defaultTitle = (node['jcr:title'] as string | undefined) ?? path.split('/').pop() ?? '';
+  return {
+    tagId: pathToTagId(path),
+    path,
+    title: (locale && localizedTitles[locale]) || defaultTitle,
+    description: node['jcr:description'] as string | undefined,
+    localizedTitles,
+    children,
+  };
+}
+
+// Lists namespaces (or the children of a tag) as a tree down to the given depth
+export async function listTags(
+  rootTagId?: string,
+  depth = 2,
+  locale?: string,
+  environment?: string
+): Promise<TagNode[]> {
+  const rootPath = rootTagId ? tagIdToPath(rootTagId) : TAGS_ROOT;
+  const data = await aemRequest<Record<string, unknown>>(getEnvironment(environment), `${rootPath}.${depth}.json`);
+  if (rootPath !== TAGS_ROOT) return [toTagNode(rootPath, data, locale)];
+
+  // The tags root itself is not a tag; its children are the namespaces
+  return Object.entries(data)
+    .filter(([, value]) => value && typeof value === 'object')
+    .map(([name, value]) => toTagNode(`${TAGS_ROOT}/${name}`, value as Record<string, unknown>, locale));
+}
+
+export async function tagExists(tagId: string, environment?: string): Promise<boolean> {
+  try {
+    await aemRequest(getEnvironment(environment), `${tagIdToPath(tagId)}.json`);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function tagCommand(env: AemEnvironment, formData: URLSearchParams, label: string): Promise<void> {
+  formData.set('_charset_', 'utf-8');
+  const response = await aemFormPost(env, '/bin/tagcommand', formData);
+  if (!response.ok) {
+    throw await responseError(env, response, label);
+  }
+}
+
+export async function createTag(
+  tagId: string,
+  title: string,
+  description?: string,
+  localizedTitles: Record<string, string> = {},
+  environment?: string
+): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const formData = new URLSearchParams({ cmd: 'createTag', tag: tagId, 'jcr:title': title });
+  if (description) formData.set('jcr:description', description);
+  await tagCommand(env, formData, 'create tag');
+
+  if (Object.keys(localizedTitles).length > 0) {
+    const titles = new URLSearchParams({ _charset_: 'utf-8' });
+    for (const [locale, localizedTitle] of Object.entries(localizedTitles)) {
+      titles.set(`jcr:title.${locale}`, localizedTitle);
+    }
+    const response = await aemFormPost(env, tagIdToPath(tagId), titles);
+    if (!response.ok) {
+      const error = await responseError(env, response, 'set localized titles', tagIdToPath(tagId));
+      error.message = `Tag ${tagId} was created, but setting its localized titles failed. ${error.message}`;
+      throw error;
+    }
+  }
+  return { success: true, tagId, path: tagIdToPath(tagId) };
+}
+
+export async function moveTag(tagId: string, destTagId: string, environment?: string): Promise<unknown> {
+  const formData = new URLSearchParams({ cmd: 'moveTag', tag: tagId, dest: destTagId });
+  await tagCommand(getEnvironment(environment), formData, 'move tag');
+  return { success: true, tagId, destination: destTagId };
+}
+
+// Merges tagId into destTagId: content tagged with tagId is retagged and tagId is removed
+export async function mergeTag(tagId: string, destTagId: string, environment?: string): Promise<unknown> {
+  const formData = new URLSearchParams({ cmd: 'mergeTag', tag: tagId, dest: destTagId });
+  await tagCommand(getEnvironment(environment), formData, 'merge tag');
+  return { success: true, tagId, mergedInto: destTagId };
+}
+
+// Pages keep cq:tags on jcr:content, assets on jcr:content/metadata
+export function taggableNodePath(path: string): string {
+  return path.startsWith('/content/dam/') ? `${path}/jcr:content/metadata` : `${path}/jcr:content`;
+}
+
+async function writeTags(
+  path: string,
+  update: (current: string[]) => string[],
+  environment?: string
+): Promise<string[]> {
+  const env = getEnvironment(environment);
+  const nodePath = taggableNodePath(path);
+  const node = await aemRequest<Record<string, unknown>>(env, `${nodePath}.json`);
+  const raw = node['cq:tags'];
+  const current = Array.isArray(raw) ? raw.map(String) : typeof raw === 'string' ? [raw] : [];
+  const tags = update(current);
+
+  const formData = new URLSearchParams({ _charset_: 'utf-8' });
+  if (tags.length > 0) {
+    appendProperties(formData, { 'cq:tags': tags });
+  } else {
+    formData.set('cq:tags@Delete', '');
+  }
+  const response = await aemFormPost(env, nodePath, formData);
+  if (!response.ok) {
+    throw await responseError(env, response, 'update tags');
+  }
+  return tags;
+}
+
+export async function addTags(path: string, tagIds: string[], environment?: string): Promise<unknown> {
+  const missing: string[] = [];
+  for (const tagId of tagIds) {
+    if (!(await tagExists(tagId, environment))) missing.push(tagId);
+  }
+  if (missing.length > 0) {
+    throw new Error(`Tags do not exist: ${missing.join(', ')}. Create them with aem_create_tag first.`);
+  }
+
+  const tags = await writeTags(path, (current) => [...new Set([...current, ...tagIds])], environment);
+  return { success: true, path, tags };
+}
+
+export async function removeTags(path: string, tagIds: string[], environment?: string): Promise<unknown> {
+  const tags = await writeTags(path, (current) => current.filter((tag) => !tagIds.includes(tag)), environment);
+  return { success: true, path, tags };
+}
+
+// ─── Packages (CRX Package Manager) ──────────────────────────────────────────
+
+const PACKAGES_ROOT = '/etc/packages';
+const MAX_LOG_LINES = 200;
+
+export interface PackageFilterRule {
+  modifier: 'include' | 'exclude';
+  pattern: string;
+}
+
+export interface PackageFilter {
+  root: string;
+  rules?: PackageFilterRule[];
+}
+
+export interface PackageInfo {
+  path: string;
+  name: string;
+  group: string;
+  version?: string;
+  size?: number;
+  built: boolean;
+  lastModified?: string;
+  lastBuilt?: string;
+  lastInstalled?: string;
+  filters: PackageFilter[];
+}
+
+export interface CreatePackageOptions {
+  name: string;
+  group: string;
+  version?: string;
+  description?: string;
+  filters: PackageFilter[];
+}
+
+export type PackageCommand = 'build' | 'install' | 'dryrun' | 'coverage';
+
+export interface PackageCommandResult {
+  success: boolean;
+  path: string;
+  command: PackageCommand;
+  // Counts of the vault action codes in the log, e.g. { A: 12, U: 3 }
+  actions: Record<string, number>;
+  errors: string[];
+  message: string;
+  log: string[];
+  truncated: boolean;
+}
+
+interface RawPackage {
+  path: string;
+  name: string;
+  group: string;
+  version?: string;
+  size?: number;
+  lastModified?: number;
+  lastWrapped?: number;
+  lastUnpacked?: number;
+  filter?: Array<{ root: string; rules?: PackageFilterRule[] }>;
+}
+
+function toIsoDate(epoch: number | undefined): string | undefined {
+  return epoch ? new Date(epoch).toISOString() : undefined;
+}
+
+function packagePathOf(group: string, name: string, version?: string): string {
+  const fileName = version ? `${name}-${version}.zip` : `${name}.zip`;
+  return `${PACKAGES_ROOT}/${group}/${fileName}`;
+}
+
+function assertPackagePath(packagePath: string): void {
+  if (!packagePath.startsWith(`${PACKAGES_ROOT}/`) || !packagePath.endsWith('.zip')) {
+    throw new Error(`"${packagePath}" is not a package path. Expected ${PACKAGES_ROOT}/<group>/<name>.zip`);
+  }
+}
+
+// Package manager endpoints that take file uploads need multipart bodies, which
+// aemFormPost cannot send
+async function packmgrMultipart(env: AemEnvironment, endpoint: string, form: FormData): Promise<Response> {
+  return aemFetch(env, endpoint, { method: 'POST', body: form }, { timeoutMs: TRANSFER_TIMEOUT_MS });
+}
+
+// script.html streams an HTML progress log, one entry per line, e.g.
+// <span class="A"><b>A</b>&nbsp;/content/mysite (nt:unstructured)</span><br>
+function parsePackageLog(html: string): string[] {
+  return html
+    .replace(/<script[\s\S]*?<\/script>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export async function listPackages(group?: string, query?: string, environment?: string): Promise<PackageInfo[]> {
+  const data = await aemRequest<{ results?: RawPackage[] }>(getEnvironment(environment), '/crx/packmgr/list.jsp');
+  const needle = query?.toLowerCase();
+  return (data.results ?? [])
+    .filter((pkg) => !group || pkg.group === group)
+    .filter((pkg) => !needle || pkg.name.toLowerCase().includes(needle) || pkg.path.toLowerCase().includes(needle))
+    .map((pkg) => ({
+      path: pkg.path,
+      name: pkg.name,
+      group: pkg.group,
+      version: pkg.version || undefined,
+      size: pkg.size,
+      built: !!pkg.lastWrapped,
+      lastModified: toIsoDate(pkg.lastModified),
+      lastBuilt: toIsoDate(pkg.lastWrapped),
+      lastInstalled: toIsoDate(pkg.lastUnpacked),
+      filters: (pkg.filter ?? []).map((filter) => ({ root: filter.root, rules: filter.rules ?? [] })),
+    }));
+}
+
+// Creates an empty package definition and then writes its filter via update.jsp
+export async function createPackage(options: CreatePackageOptions, environment?: string): Promise<unknown> {
+  const env = getEnvironment(environment);
+  if (options.filters.length === 0) throw new Error('At least one filter root is required');
+
+  const packagePath = packagePathOf(options.group, options.name, options.version);
+  const createForm = new URLSearchParams({
+    packageName: options.name,
+    groupName: options.group,
+  });
+  if (options.version) createForm.set('packageVersion', options.version);
+  const createResponse = await aemFormPost(env, `/crx/packmgr/service/.json${packagePath}?cmd=create`, createForm);
+  if (!createResponse.ok) {
+    throw await responseError(env, createResponse, 'create package', packagePath);
+  }
+  const created = await createResponse.json().catch(() => ({})) as { success?: boolean; msg?: string; path?: string };
+  if (!created.success) {
+    throw new Error(`AEM create package failed on ${packagePath}: ${created.msg ?? 'no details returned'}`);
+  }
+
+  const path = created.path ?? packagePath;
+  const filters = options.filters.map((filter) => ({ root: filter.root, rules: filter.rules ?? [] }));
+  const updateForm = new FormData();
+  updateForm.set('_charset_', 'utf-8');
+  updateForm.set('path', path);
+  updateForm.set('packageName', options.name);
+  updateForm.set('groupName', options.group);
+  updateForm.set('version', options.version ?? '');
+  updateForm.set('description', options.description ?? '');
+  updateForm.set('filter', JSON.stringify(filters));
+  const updateResponse = await packmgrMultipart(env, '/crx/packmgr/update.jsp', updateForm);
+  if (!updateResponse.ok) {
+    const error = await responseError(env, updateResponse, 'set package filters', path);
+    error.message = `Package ${path} was created, but setting its filters failed. ${error.message}`;
+    throw error;
+  }
+  const updated = await updateResponse.json().catch(() => ({})) as { success?: boolean; msg?: string };
+  if (updated.success === false) {
+    throw new Error(`Package ${path} was created, but setting its filters failed: ${updated.msg ?? 'no details returned'}`);
+  }
+
+  return { success: true, path, filters };
+}
+
+async function runPackageCommand(
+  env: AemEnvironment,
+  packagePath: string,
+  command: PackageCommand,
+  extra: Record<string, string> = {}
+): Promise<PackageCommandResult> {
+  assertPackagePath(packagePath);
+  const formData = new URLSearchParams({ cmd: command, ...extra });
+  const response = await aemFormPost(env, `/crx/packmgr/service/script.html${packagePath}`, formData, {
+    timeoutMs: TRANSFER_TIMEOUT_MS,
+  });
+  if (!response.ok) {
+    throw await responseError(env, response, `package ${command}`, packagePath);
+  }
+
+  const lines = parsePackageLog(await response.text());
+  const actions: Record<string, number> = {};
+  const errors: string[] = [];
+  for (const line of lines) {
+    const match = /^([A-Z!-]) (\/.*)$/.exec(line);
+    if (!match) continue;
+    actions[match[1]] = (actions[match[1]] ?? 0) + 1;
+    if (match[1] === 'E' || match[1] === '!') errors.push(match[2]);
+  }
+  const message = lines[lines.length - 1] ?? '';
+  return {
+    success: errors.length === 0 && !/error|failed|exception/i.test(message),
+    path: packagePath,
+    command,
+    actions,
+    errors,
+    message,
+    log: lines.slice(-MAX_LOG_LINES),
+    truncated: lines.length > MAX_LOG_LINES,
+  };
+}
+
+export async function buildPackage(packagePath: string, environment?: string): Promise<PackageCommandResult> {
+  return runPackageCommand(getEnvironment(environment), packagePath, 'build');
+}
+
+// dryRun reports what an install would change without touching the repository
+export async function installPackage(
+  packagePath: string,
+  dryRun = false,
+  recursive = true,
+  environment?: string
+): Promise<PackageCommandResult> {
+  return runPackageCommand(
+    getEnvironment(environment),
+    packagePath,
+    dryRun ? 'dryrun' : 'install',
+    { recursive: String(recursive), autosave: '1024' }
+  );
+}
+
+// Lists the repository paths covered by the package filter on this instance
+export async function getPackageCoverage(packagePath: string, environment?: string): Promise<PackageCommandResult> {
+  return runPackageCommand(getEnvironment(environment), packagePath, 'coverage');
+}
+
+export async function downloadPackage(packagePath: string, filePath: string, environment?: string): Promise<unknown> {
+  const env = getEnvironment(environment);
+  assertPackagePath(packagePath);
+  const target = await resolveLocalFile(filePath);
+  const response = await aemFetch(env, packagePath, {}, { timeoutMs: TRANSFER_TIMEOUT_MS });
+  if (!response.ok) {
+    throw await responseError(env, response, 'package download', packagePath);
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+  await writeFile(target, data);
+  return { success: true, path: packagePath, filePath, size: data.length };
+}
+
+export async function uploadPackage(filePath: string, force = false, environment?: string): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const data = await readFile(await resolveLocalFile(filePath));
+  const form = new FormData();
+  form.set('package', new Blob([new Uint8Array(data)], { type: 'application/zip' }), basename(filePath));
+  form.set('force', String(force));
+  const response = await packmgrMultipart(env, '/crx/packmgr/service/.json/?cmd=upload', form);
+  if (!response.ok) {
+    throw await responseError(env, response, 'package upload', basename(filePath));
+  }
+  const result = await response.json().catch(() => ({})) as { success?: boolean; msg?: string; path?: string };
+  if (!result.success) {
+    throw new Error(`AEM package upload failed for ${basename(filePath)}: ${result.msg ?? 'no details returned'}`);
+  }
+  return { success: true, path: result.path, size: data.length, message: result.msg };
+}
+
+// ─── Node Snapshots ──────────────────────────────────────────────────────────
+
+export interface NodeSnapshot {
+  path: string;
+  exists: boolean;
+  // Trees too large to crawl completely; such snapshots cannot be restored
+  truncated?: boolean;
+  content?: Record<string, unknown>;
+  error?: string;
+}
+
+// AEM refuses .infinity.json on trees above its node limit (300 Multiple
+// Choices); those are crawled in slices of this depth, within a request budget
+const SNAPSHOT_CRAWL_DEPTH = 5;
+const MAX_SNAPSHOT_REQUESTS = 200;
+
+// Properties maintained by the repository itself that cannot be written back
+const PROTECTED_PROPERTIES = new Set([
+  'jcr:uuid',
+  'jcr:created',
+  'jcr:createdBy',
+  'jcr:baseVersion',
+  'jcr:predecessors',
+  'jcr:versionHistory',
+  'jcr:isCheckedOut',
+  'jcr:lockOwner',
+  'jcr:lockIsDeep',
+]);
+
+// Sling renders dates in ECMAScript format, e.g. "Tue Mar 05 2024 10:15:30 GMT+0100"
+const ECMA_DATE = /^[A-Z][a-z]{2} [A-Z][a-z]{2} \d{2} \d{4} \d{2}:\d{2}:\d{2} GMT[+-]\d{4}$/;
+
+function isNode(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Binary properties are rendered as ":name": <length>, so their data is not in the snapshot
+function containsBinary(node: Record<string, unknown>): boolean {
+  return Object.entries(node).some(([key, value]) => key.startsWith(':') || (isNode(value) && containsBinary(value)));
+}
+
+function importableContent(node: Record<string, unknown>): Record<string, unknown> {
+  const content: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (PROTECTED_PROPERTIES.has(key)) continue;
+    content[key] = isNode(value) ? importableContent(value) : value;
+  }
+  return content;
+}
+
+function restoreTypeHint(value: unknown): string | undefined {
+  const sample = Array.isArray(value) ? value[0] : value;
+  let type: string | undefined;
+  if (typeof sample === 'boolean') type = 'Boolean';
+  else if (typeof sample === 'number') type = Number.isInteger(sample) ? 'Long' : 'Double';
+  else if (typeof sample === 'string' && ECMA_DATE.test(sample)) type = 'Date';
+  return Array.isArray(value) ? `${type ?? 'String'}[]` : type;
+}
+
+// Compares two snapshots of the same node and collects what is needed to turn
+// `after` back into `before`: property writes (relative to the node), child
+// nodes to re-import, child nodes to remove and child nodes to move to the end,
+// in order, to restore their order
+function collectRestore(
+  path: string,
+  rel: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  formData: URLSearchParams,
+  imports: Array<{ path: string; content: Record<string, unknown> }>,
+  removals: string[],
+  reorders: string[]
+): void {
+  const prefix = rel ? `./${rel}/` : './';
+  for (const [key, value] of Object.entries(before)) {
+    if (key.startsWith(':') && JSON.stringify(value) !== JSON.stringify(after[key])) {
+      throw new Error(`Cannot restore ${path}/${rel ? `${rel}/` : ''}${key.slice(1)}: binary data is not captured in snapshots`);
+    }
+    if (PROTECTED_PROPERTIES.has(key) || key === 'jcr:primaryType' || key.startsWith(':')) continue;
+    const childRel = rel ? `${rel}/${key}` : key;
+    if (isNode(value)) {
+      const current = after[key];
+      if (isNode(current)) {
+        collectRestore(path, childRel, value, current, formData, imports, removals, reorders);
+      } else {
+        imports.push({ path: `${path}/${childRel}`, content: value });
+      }
+    } else if (JSON.stringify(value) !== JSON.stringify(after[key])) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        formData.append(`${prefix}${key}`, String(item));
+      }
+      const hint = restoreTypeHint(value);
+      if (hint) formData.set(`${prefix}${key}@TypeHint`, hint);
+    }
+  }
+  for (const [key, value] of Object.entries(after)) {
+    if (key in before || PROTECTED_PROPERTIES.has(key) || key.startsWith(':')) continue;
+    if (isNode(value)) {
+      removals.push(`${path}/${rel ? `${rel}/` : ''}${key}`);
+    } else {
+      formData.append(`${prefix}${key}@Delete`, '');
+    }
+  }
+
+  // Kept children stay in their current order and re-imported ones are appended
+  const children = (node: Record<string, unknown>) => Object.keys(node).filter((key) => isNode(node[key]));
+  const wanted = children(before);
+  const kept = children(after).filter((key) => wanted.includes(key));
+  const restored = [...kept, ...wanted.filter((key) => !kept.includes(key))];
+  if (restored.join('/') !== wanted.join('/')) {
+    reorders.push(...wanted.map((key) => `${path}/${rel ? `${rel}/` : ''}${key}`));
+  }
+}
+
+async function importNode(env: AemEnvironment, path: string, content: Record<string, unknown>): Promise<void> {
+  if (containsBinary(content)) {
+    throw new Error(`Cannot recreate ${path}: it contains binary data, which snapshots do not capture`);
+  }
+  const formData = new URLSearchParams({
+    ':operation': 'import',
+    ':contentType': 'json',
+    ':name': pageName(path),
+    ':content': JSON.stringify(importableContent(content)),
+  });
+  await slingPost(env, parentPath(path), formData, 'recreate node');
+}
+
+// Reads a subtree slice by slice: every node at the crawl depth is read again
+// from there, since Sling does not tell whether it has children. Returns
+// undefined when the request budget runs out.
+async function crawlNode(
+  env: AemEnvironment,
+  path: string,
+  budget: { requests: number }
+): Promise<Record<string, unknown> | undefined> {
+  if (budget.requests-- <= 0) return undefined;
+  const node = await aemRequest<Record<string, unknown>>(env, `${path}.${SNAPSHOT_CRAWL_DEPTH}.json`);
+
+  const fill = async (parent: Record<string, unknown>, parentPath: string, level: number): Promise<boolean> => {
+    for (const [key, child] of Object.entries(parent)) {
+      if (!isNode(child)) continue;
+      const childPath = `${parentPath}/${key}`;
+      if (level < SNAPSHOT_CRAWL_DEPTH) {
+        if (!await fill(child, childPath, level + 1)) return false;
+      } else {
+        const subtree = await crawlNode(env, childPath, budget);
+        if (!subtree) return false;
+        parent[key] = subtree;
+      }
+    }
+    return true;
+  };
+  return await fill(node, path, 1) ? node : undefined;
+}
+
+// Captures a node and its subtree as Sling JSON; missing nodes are recorded as exists: false
+export async function getNodeSnapshot(path: string, environment?: string): Promise<NodeSnapshot> {
+  const env = getEnvironment(environment);
+  const response = await aemFetch(env, `${path}.infinity.json`, { headers: { Accept: 'application/json' } });
+  if (response.status === 404) return { path, exists: false };
+  if (response.status === 300) {
+    await response.body?.cancel();
+    const content = await crawlNode(env, path, { requests: MAX_SNAPSHOT_REQUESTS });
+    return content ? { path, exists: true, content } : { path, exists: true, truncated: true };
+  }
+  if (!response.ok) {
+    throw await responseError(env, response, 'snapshot', path);
+  }
+  return { path, exists: true, content: await response.json() as Record<string, unknown> };
+}
+
+// Puts a node back into the state of `before`, assuming it is currently in the
+// state of `after`. Returns what was done.
+export async function restoreNodeSnapshot(
+  before: NodeSnapshot,
+  after: NodeSnapshot,
+  environment?: string
+): Promise<'unchanged' | 'deleted' | 'recreated' | 'restored'> {
+  const env = getEnvironment(environment);
+  if (before.error || after.error || before.truncated || after.truncated) {
+    throw new Error(`Cannot restore ${before.path}: its snapshot is incomplete`);
+  }
+  if (!before.exists && !after.exists) return 'unchanged';
+
+  if (!before.exists) {
+    await slingPost(env, before.path, new URLSearchParams({ ':operation': 'delete' }), 'delete node');
+    return 'deleted';
+  }
+  if (!after.exists) {
+    await importNode(env, before.path, before.content ?? {});
+    return 'recreated';
+  }
+
+  const formData = new URLSearchParams();
+  const imports: Array<{ path: string; content: Record<string, unknown> }> = [];
+  const removals: string[] = [];
+  const reorders: string[] = [];
+  collectRestore(before.path, '', before.content ?? {}, after.content ?? {}, formData, imports, removals, reorders);
+
+  for (const node of imports) await importNode(env, node.path, node.content);
+  if ([...formData.keys()].length > 0) await slingPost(env, before.path, formData, 'restore properties');
+  if (removals.length > 0) {
+    const removeForm = new URLSearchParams({ ':operation': 'delete' });
+    for (const path of removals) removeForm.append(':applyTo', path);
+    await slingPost(env, before.path, removeForm, 'remove nodes');
+  }
+  for (const path of reorders) await slingPost(env, path, new URLSearchParams({ ':order': 'last' }), 'reorder node');
+  return 'restored';
+}
+
+// ─── Diagnostics ─────────────────────────────────────────────────────────────
 
 function decodeJwtClaims(token: string): Record<string, unknown> | null {
   try {
@@ -373,13 +3637,14 @@ function decodeJwtClaims(token: string): Record<string, unknown> | null {
   }
 }
 
-export async function checkConnection(): Promise<Record<string, unknown>> {
-  const baseUrl = getBaseUrl();
-  const results: Record<string, unknown> = { baseUrl };
+export async function checkConnection(environment?: string): Promise<Record<string, unknown>> {
+  const env = getEnvironment(environment);
+  const baseUrl = getBaseUrl(env);
+  const results: Record<string, unknown> = { environment: env.name, baseUrl };
 
   // 0. Decode the current token to check its claims (exp, aud, org, etc.)
-  if (AEM_AUTH_TYPE === 'token') {
-    const token = accessToken || (process.env.AEM_ACCESS_TOKEN ?? '');
+  if (env.authType === 'token') {
+    const token = env.accessToken;
     if (token) {
       const claims = decodeJwtClaims(token);
       if (claims) {
@@ -397,14 +3662,14 @@ export async function checkConnection(): Promise<Record<string, unknown>> {
         results.tokenClaims = { error: 'Could not decode token — may not be a JWT' };
       }
     } else {
-      results.tokenClaims = { error: 'No access token set in AEM_ACCESS_TOKEN' };
+      results.tokenClaims = { error: `No access token set in ${envVarName(env, 'ACCESS_TOKEN')}` };
     }
   }
 
   // 1. Verify the token/auth reaches AEM at all via the CSRF endpoint
   try {
     const csrfRes = await fetch(`${baseUrl}/libs/granite/csrf/token.json`, {
-      headers: { Authorization: await getAuthHeader() },
+      headers: { Authorization: await getAuthHeader(env) },
     });
     results.csrf = {
       status: csrfRes.status,
@@ -418,7 +3683,7 @@ export async function checkConnection(): Promise<Record<string, unknown>> {
   // 2. Identify the authenticated user and their group memberships
   try {
     const userRes = await fetch(`${baseUrl}/libs/granite/security/currentuser.json`, {
-      headers: { Authorization: await getAuthHeader() },
+      headers: { Authorization: await getAuthHeader(env) },
     });
     if (userRes.ok) {
       const user = await userRes.json() as Record<string, unknown>;
@@ -433,7 +3698,7 @@ export async function checkConnection(): Promise<Record<string, unknown>> {
   // 3. Try a basic read of /content (the most common 403 path)
   try {
     const contentRes = await fetch(`${baseUrl}/content.1.json`, {
-      headers: { Authorization: await getAuthHeader() },
+      headers: { Authorization: await getAuthHeader(env) },
     });
     results.contentAccess = { status: contentRes.status, ok: contentRes.ok };
   } catch (e) {
@@ -443,7 +3708,7 @@ export async function checkConnection(): Promise<Record<string, unknown>> {
   // 4. Try a basic read of /content/dam
   try {
     const damRes = await fetch(`${baseUrl}/content/dam.1.json`, {
-      headers: { Authorization: await getAuthHeader() },
+      headers: { Authorization: await getAuthHeader(env) },
     });
     results.damAccess = { status: damRes.status, ok: damRes.ok };
   } catch (e) {
@@ -452,3 +3717,48 @@ export async function checkConnection(): Promise<Record<string, unknown>> {
 
   return results;
 }
+
+export interface EnvironmentStatus {
+  name: string;
+  isDefault: boolean;
+  baseUrl: string;
+  authType: string;
+  production: boolean;
+  readOnly: boolean;
+  confirmDestructive: boolean;
+  reachable: boolean;
+  status?: number;
+  error?: string;
+}
+
+// Lists every configured profile and probes the CSRF endpoint of each one,
+// which is cheap and requires a valid login on both 6.5 and AEMaaCS.
+export async function listEnvironments(): Promise<EnvironmentStatus[]> {
+  const defaultName = getDefaultEnvironmentName();
+
+  return Promise.all(listEnvironmentNames().map(async (name) => {
+    const env = getEnvironment(name);
+    const status: EnvironmentStatus = {
+      name,
+      isDefault: name === defaultName,
+      baseUrl: env.baseUrl,
+      authType: env.authType,
+      production: env.production,
+      readOnly: env.readOnly,
+      confirmDestructive: env.confirmDestructive,
+      reachable: false,
+    };
+
+    try {
+      const response = await fetch(`${getBaseUrl(env)}/libs/granite/csrf/token.json`, {
+        headers: { Authorization: await getAuthHeader(env) },
+        signal: AbortSignal.timeout(5000),
+      });
+      status.status = response.status;
+      status.reachable = response.ok;
+    } catch (e) {
+      status.error = String(e);
+    }
+    return status;
+  }));
+}
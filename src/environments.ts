@@ -0,0 +1,255 @@
+import dotenv from 'dotenv';
+import { AsyncLocalStorage } from 'async_hooks';
+import { realpath } from 'fs/promises';
+import { basename, dirname, join, resolve, sep } from 'path';
+import { fileURLToPath } from 'url';
+
+// Load .env from the project root regardless of the process working directory.
+// import.meta.url points to dist/environments.js, so ../ is the project root.
+dotenv.config({ path: fileURLToPath(new URL('../.env', import.meta.url)) });
+
+// Name of the implicit profile built from the unprefixed AEM_* variables when
+// AEM_ENVIRONMENTS is not set.
+export const DEFAULT_ENVIRONMENT = 'default';
+
+export type AuthType = 'basic' | 'token';
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 2;
+
+// Kinds of mutating operations that path rules can be configured for
+export const GUARDED_OPERATIONS = ['write', 'delete', 'publish', 'workflow', 'package'] as const;
+export type GuardedOperation = typeof GUARDED_OPERATIONS[number];
+
+export interface PathRules {
+  // Path prefixes the operation is limited to; empty means any path
+  allowed: string[];
+  // Path prefixes the operation is never allowed on; wins over allowed
+  denied: string[];
+}
+
+export interface AemEnvironment {
+  name: string;
+  // Prefix of this profile's variables in .env, e.g. AEM_ or AEM_STAGE_
+  envPrefix: string;
+  baseUrl: string;
+  authType: AuthType;
+  username: string;
+  password: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  // Create a version before page property and fragment updates by default
+  autoVersion: boolean;
+  // Per-attempt request timeout, and retries of idempotent requests on 429, 5xx and network errors
+  timeoutMs: number;
+  maxRetries: number;
+
+  // Guardrails — see guardrails.ts
+  production: boolean;
+  readOnly: boolean;
+  // Destructive tools return a preview and confirmation token before running
+  confirmDestructive: boolean;
+  pathRules: Record<GuardedOperation, PathRules>;
+
+  // Mutable token state — refreshed automatically when expired
+  accessToken: string;
+  tokenExpiresAt: number; // epoch ms; 0 means unknown/expired
+
+  // CSRF token cache — AEM requires this header on all mutating requests
+  csrfToken: string;
+  csrfTokenExpiresAt: number; // epoch ms
+}
+
+// AEM credentials a client of the shared HTTP server uses instead of the profile's own
+export type ClientCredentials = Partial<Pick<AemEnvironment, 'username' | 'password' | 'clientId' | 'clientSecret' | 'scopes'>>;
+
+// An authenticated client of the shared HTTP server — see http-server.ts
+export interface ClientIdentity {
+  name: string;
+  // Profiles the client may use; all configured profiles when omitted
+  environments?: string[];
+  defaultEnvironment?: string;
+  // Per-profile credentials; profiles without an entry use their own
+  credentials?: Record<string, ClientCredentials>;
+}
+
+// Profiles are built lazily and cached so each keeps its own token and CSRF state
+const environments = new Map<string, AemEnvironment>();
+const clientEnvironments = new Map<string, AemEnvironment>();
+
+// The client on whose behalf the current request runs. Unset in stdio mode.
+const clientContext = new AsyncLocalStorage<ClientIdentity>();
+
+export function runAsClient<T>(client: ClientIdentity, fn: () => T): T {
+  return clientContext.run(client, fn);
+}
+
+export function currentClient(): ClientIdentity | undefined {
+  return clientContext.getStore();
+}
+
+// Local file paths of uploads and downloads. In stdio mode they are used as given;
+// clients of the HTTP server are limited to MCP_HTTP_FILE_DIR, since the server's
+// own files (.env, mcp-clients.json) hold every profile's and client's secrets.
+export async function resolveLocalFile(filePath: string): Promise<string> {
+  const client = currentClient();
+  if (!client) return filePath;
+
+  const dir = process.env.MCP_HTTP_FILE_DIR;
+  if (!dir) {
+    throw new Error(`Local file paths are not available to HTTP client "${client.name}". Send the content as base64, or set MCP_HTTP_FILE_DIR on the server.`);
+  }
+  const root = await realpath(dir);
+  const outside = (path: string) => path !== root && !path.startsWith(`${root}${sep}`);
+  const refuse = () => new Error(`${filePath} is outside MCP_HTTP_FILE_DIR; HTTP clients can only transfer files in that folder`);
+  const target = resolve(root, filePath);
+  if (outside(target)) throw refuse();
+
+  // Follow symlinks; files that do not exist yet are checked by their folder
+  const real = await realpath(target).catch(async () => join(await realpath(dirname(target)), basename(target)))
+    .catch(() => { throw new Error(`The folder of ${filePath} does not exist in MCP_HTTP_FILE_DIR`); });
+  if (outside(real)) throw refuse();
+  return real;
+}
+
+function prefixFor(name: string): string {
+  if (name === DEFAULT_ENVIRONMENT && !process.env.AEM_ENVIRONMENTS) return 'AEM_';
+  return `AEM_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+}
+
+function pathList(value: string): string[] {
+  return value
+    .split(',')
+    .map((path) => path.trim().replace(/(.)\/$/, '$1'))
+    .filter(Boolean);
+}
+
+// Operation-specific allowlists (ALLOWED_PATHS_DELETE) replace the general one
+// (ALLOWED_PATHS); denylists from both apply.
+function readPathRules(read: (key: string) => string): Record<GuardedOperation, PathRules> {
+  const allowed = pathList(read('ALLOWED_PATHS'));
+  const denied = pathList(read('DENIED_PATHS'));
+  const rules = {} as Record<GuardedOperation, PathRules>;
+  for (const operation of GUARDED_OPERATIONS) {
+    const suffix = operation.toUpperCase();
+    const operationAllowed = pathList(read(`ALLOWED_PATHS_${suffix}`));
+    rules[operation] = {
+      allowed: operationAllowed.length > 0 ? operationAllowed : allowed,
+      denied: [...denied, ...pathList(read(`DENIED_PATHS_${suffix}`))],
+    };
+  }
+  return rules;
+}
+
+function configuredEnvironmentNames(): string[] {
+  const names = (process.env.AEM_ENVIRONMENTS ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return names.length > 0 ? names : [DEFAULT_ENVIRONMENT];
+}
+
+// The configured profiles, limited to those the current client may use
+export function listEnvironmentNames(): string[] {
+  const names = configuredEnvironmentNames();
+  const allowed = currentClient()?.environments;
+  return allowed ? names.filter((name) => allowed.includes(name)) : names;
+}
+
+export function getDefaultEnvironmentName(): string {
+  const names = listEnvironmentNames();
+  const preferred = [currentClient()?.defaultEnvironment, process.env.AEM_DEFAULT_ENVIRONMENT];
+  return preferred.find((name): name is string => !!name && names.includes(name)) ?? names[0];
+}
+
+export function envVarName(env: AemEnvironment, key: string): string {
+  return `${env.envPrefix}${key}`;
+}
+
+// Resolves a profile by name, falling back to the default profile. Throws for
+// names that are not listed in AEM_ENVIRONMENTS so typos surface immediately.
+// Clients of the HTTP server only see their allowed profiles, with their own
+// credentials where configured.
+export function getEnvironment(name?: string): AemEnvironment {
+  const client = currentClient();
+  const resolved = name || getDefaultEnvironmentName();
+  const names = listEnvironmentNames();
+  if (!names.includes(resolved)) {
+    if (client && configuredEnvironmentNames().includes(resolved)) {
+      throw new Error(`AEM environment "${resolved}" is not available to client "${client.name}". Available: ${names.join(', ')}.`);
+    }
+    throw new Error(
+      `Unknown AEM environment "${resolved}". Configured environments: ${names.join(', ')}. ` +
+      'Add it to AEM_ENVIRONMENTS in your .env file.'
+    );
+  }
+
+  const credentials = client?.credentials?.[resolved];
+  return credentials ? clientEnvironment(client!.name, loadEnvironment(resolved), credentials) : loadEnvironment(resolved);
+}
+
+// A copy of the profile with the client's credentials and its own token and CSRF
+// state, cached per client
+function clientEnvironment(clientName: string, base: AemEnvironment, credentials: ClientCredentials): AemEnvironment {
+  const key = `${clientName}/${base.name}`;
+  const cached = clientEnvironments.get(key);
+  if (cached) return cached;
+
+  // Complete sets are enforced when the client list is loaded; the profile's own
+  // secrets are cleared so they never fill gaps. Scopes are not secret and
+  // default to the profile's.
+  const authType = credentials.clientId ? 'token' : 'basic';
+  const env: AemEnvironment = {
+    ...base,
+    authType,
+    username: credentials.username ?? '',
+    password: credentials.password ?? '',
+    clientId: credentials.clientId ?? '',
+    clientSecret: credentials.clientSecret ?? '',
+    scopes: credentials.scopes ?? (authType === 'token' ? base.scopes : ''),
+    accessToken: '',
+    tokenExpiresAt: 0,
+    csrfToken: '',
+    csrfTokenExpiresAt: 0,
+  };
+  clientEnvironments.set(key, env);
+  return env;
+}
+
+function loadEnvironment(resolved: string): AemEnvironment {
+  const cached = environments.get(resolved);
+  if (cached) return cached;
+
+  const envPrefix = prefixFor(resolved);
+  const read = (key: string) => process.env[`${envPrefix}${key}`] ?? '';
+  const production = read('PRODUCTION') === 'true';
+
+  const env: AemEnvironment = {
+    name: resolved,
+    envPrefix,
+    baseUrl: read('BASE_URL').replace(/\/$/, ''),
+    authType: read('AUTH_TYPE') === 'token' ? 'token' : 'basic',
+    username: read('USERNAME'),
+    password: read('PASSWORD'),
+    clientId: read('CLIENT_ID'),
+    clientSecret: read('CLIENT_SECRET'),
+    scopes: read('SCOPES'),
+    autoVersion: read('AUTO_VERSION') === 'true',
+    // Profile values win over the global AEM_TIMEOUT_MS / AEM_MAX_RETRIES
+    timeoutMs: Number(read('TIMEOUT_MS') || process.env.AEM_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+    maxRetries: Number(read('MAX_RETRIES') || process.env.AEM_MAX_RETRIES || DEFAULT_MAX_RETRIES),
+    production,
+    // AEM_READ_ONLY locks every profile; AEM_<NAME>_READ_ONLY only that one
+    readOnly: process.env.AEM_READ_ONLY === 'true' || read('READ_ONLY') === 'true',
+    confirmDestructive: read('CONFIRM_DESTRUCTIVE') ? read('CONFIRM_DESTRUCTIVE') === 'true' : production,
+    pathRules: readPathRules(read),
+    accessToken: read('ACCESS_TOKEN'),
+    tokenExpiresAt: 0,
+    csrfToken: '',
+    csrfTokenExpiresAt: 0,
+  };
+
+  environments.set(resolved, env);
+  return env;
+}
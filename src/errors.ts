@@ -0,0 +1,154 @@
+import { envVarName, type AemEnvironment } from './environments.js';
+
+// Longest extract of an AEM response body quoted in an error message
+const MAX_DETAIL_LENGTH = 300;
+
+export type AemErrorKind =
+  | 'authentication'
+  | 'permission'
+  | 'not_found'
+  | 'conflict'
+  | 'invalid_request'
+  | 'rate_limited'
+  | 'server'
+  | 'timeout'
+  | 'network';
+
+export interface AemErrorInfo {
+  environment: string;
+  path: string;
+  status?: number;
+  // Short explanation taken from the response body
+  detail?: string;
+  hint: string;
+}
+
+// A failed AEM request, classified so callers and the model can react to the
+// kind of failure instead of parsing raw response bodies
+export class AemError extends Error {
+  readonly kind: AemErrorKind;
+  readonly environment: string;
+  readonly path: string;
+  readonly status?: number;
+  readonly detail?: string;
+  readonly hint: string;
+
+  constructor(kind: AemErrorKind, label: string, info: AemErrorInfo) {
+    const status = info.status ? ` (${info.status})` : '';
+    const detail = info.detail ? `: ${info.detail}` : '';
+    super(`AEM ${label} failed on ${info.path}${status}${detail}. ${info.hint}`);
+    this.name = 'AemError';
+    this.kind = kind;
+    this.environment = info.environment;
+    this.path = info.path;
+    this.status = info.status;
+    this.detail = info.detail;
+    this.hint = info.hint;
+  }
+}
+
+function classify(status: number): AemErrorKind {
+  if (status === 401) return 'authentication';
+  if (status === 403) return 'permission';
+  if (status === 404 || status === 410) return 'not_found';
+  if (status === 409 || status === 412) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'invalid_request';
+}
+
+function credentialsHint(env: AemEnvironment): string {
+  return env.authType === 'token'
+    ? `Check ${envVarName(env, 'CLIENT_ID')}, ${envVarName(env, 'CLIENT_SECRET')} and ${envVarName(env, 'SCOPES')}, or run \`npm run get-token\`.`
+    : `Check ${envVarName(env, 'USERNAME')} and ${envVarName(env, 'PASSWORD')}.`;
+}
+
+function hintFor(kind: AemErrorKind, env: AemEnvironment, status?: number): string {
+  switch (kind) {
+    case 'authentication':
+      return env.authType === 'token'
+        ? `AEM rejected the access token of environment "${env.name}", even after fetching a new one. ${credentialsHint(env)}`
+        : `AEM rejected the credentials of environment "${env.name}". ${credentialsHint(env)}`;
+    case 'permission':
+      return `The AEM user of environment "${env.name}" lacks permission for this path or operation. Run aem_check_connection to see which user is used.`;
+    case 'not_found':
+      return 'The path does not exist. Check it with aem_list_pages or aem_search.';
+    case 'conflict':
+      return 'The node already exists or was changed concurrently. Read it again before retrying.';
+    case 'rate_limited':
+      return 'AEM is throttling requests. Wait a moment before retrying.';
+    case 'server':
+      return status === 503
+        ? 'AEM is unavailable, possibly restarting or deploying. Try again later.'
+        : 'AEM reported an internal error. Check the AEM error.log for the stack trace.';
+    case 'timeout':
+      return `AEM did not respond in time. Narrow the request or raise ${envVarName(env, 'TIMEOUT_MS')}.`;
+    case 'network':
+      return `AEM is not reachable. Check ${envVarName(env, 'BASE_URL')} and your network or VPN connection.`;
+    default:
+      return 'AEM rejected the request parameters.';
+  }
+}
+
+function collapse(text: string): string | undefined {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  if (!collapsed) return undefined;
+  return collapsed.length > MAX_DETAIL_LENGTH ? `${collapsed.slice(0, MAX_DETAIL_LENGTH)}…` : collapsed;
+}
+
+// Picks the message out of the JSON, Sling HTML or plain text AEM returns on errors
+export function errorDetail(body: string): string | undefined {
+  try {
+    const data = JSON.parse(body) as Record<string, unknown>;
+    const errors = data.errors as Array<{ message?: string }> | undefined;
+    const message = data.message ?? data.msg ?? data.error_description ?? data.error ?? data.title ?? errors?.[0]?.message;
+    if (typeof message === 'string') return collapse(message);
+  } catch {
+    // Not JSON
+  }
+
+  // Sling POST servlet responses carry the message in <div id="Message">
+  const slingMessage = /<div id="Message">([\s\S]*?)<\/div>/i.exec(body)?.[1];
+  const title = /<title>([\s\S]*?)<\/title>/i.exec(body)?.[1];
+  const html = slingMessage ?? title;
+  if (html !== undefined || /^\s*</.test(body)) {
+    return collapse((html ?? '').replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&'));
+  }
+  return collapse(body);
+}
+
+// Builds the error for a non-2xx AEM response. Consumes the response body.
+export async function responseError(
+  env: AemEnvironment,
+  response: Response,
+  label: string,
+  path = response.url ? new URL(response.url).pathname : ''
+): Promise<AemError> {
+  const body = await response.text().catch(() => '');
+  const kind = classify(response.status);
+  return new AemError(kind, label, {
+    environment: env.name,
+    path,
+    status: response.status,
+    detail: errorDetail(body) ?? response.statusText,
+    hint: hintFor(kind, env, response.status),
+  });
+}
+
+// Builds the error for a request that got no response
+export function requestError(
+  env: AemEnvironment,
+  label: string,
+  path: string,
+  cause: unknown,
+  timeoutMs: number
+): AemError {
+  const kind = (cause as Error).name === 'TimeoutError' ? 'timeout' : 'network';
+  const detail = kind === 'timeout' ? `no response after ${timeoutMs} ms` : String((cause as Error).cause ?? cause);
+  return new AemError(kind, label, { environment: env.name, path, detail, hint: hintFor(kind, env) });
+}
+
+// Failures that a later retry of the same request may not hit
+export function isTransient(status: number): boolean {
+  return status === 429 || (status >= 500 && status !== 501 && status !== 505);
+}
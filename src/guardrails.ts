@@ -0,0 +1,90 @@
+import { createHash, randomUUID } from 'crypto';
+import { envVarName, currentClient, type AemEnvironment, type GuardedOperation } from './environments.js';
+
+// Confirmation tokens are single-use and only valid for a short time
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+function matchesPrefix(path: string, prefix: string): boolean {
+  return prefix === '/' || path === prefix || path.startsWith(`${prefix}/`);
+}
+
+// Throws when the profile is read-only or a path falls outside the configured
+// allow/deny rules for the operation. A call without paths cannot be checked,
+// so it is refused when the operation is limited to allowed prefixes.
+export function assertOperationAllowed(env: AemEnvironment, operation: GuardedOperation, paths: string[]): void {
+  if (env.readOnly) {
+    throw new Error(
+      `AEM environment "${env.name}" is read-only. ` +
+      `Unset AEM_READ_ONLY / ${envVarName(env, 'READ_ONLY')} to allow ${operation} operations.`
+    );
+  }
+
+  const rules = env.pathRules[operation];
+  if (paths.length === 0 && rules.allowed.length > 0) {
+    throw new Error(
+      `${operation} is limited to ${rules.allowed.join(', ')} in environment "${env.name}", ` +
+      'but this call does not name the paths it changes'
+    );
+  }
+  for (const path of paths) {
+    const denied = rules.denied.find((prefix) => matchesPrefix(path, prefix));
+    if (denied) {
+      throw new Error(`${operation} is denied on ${path} in environment "${env.name}" (denied prefix ${denied})`);
+    }
+    if (rules.allowed.length > 0 && !rules.allowed.some((prefix) => matchesPrefix(path, prefix))) {
+      throw new Error(
+        `${operation} is not allowed on ${path} in environment "${env.name}". ` +
+        `Allowed prefixes: ${rules.allowed.join(', ')}`
+      );
+    }
+  }
+}
+
+// Binds a confirmation to the exact tool, environment, arguments and HTTP client it was issued for
+function fingerprintOf(env: AemEnvironment, tool: string, args: Record<string, unknown>): string {
+  const { confirm_token: _token, environment: _environment, ...rest } = args;
+  const sorted = Object.keys(rest).sort().map((key) => [key, rest[key]]);
+  return createHash('sha256').update(JSON.stringify([tool, env.name, currentClient()?.name ?? '', sorted])).digest('hex');
+}
+
+export function issueConfirmation(
+  env: AemEnvironment,
+  tool: string,
+  args: Record<string, unknown>
+): { token: string; expiresAt: string } {
+  const now = Date.now();
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) pendingConfirmations.delete(token);
+  }
+
+  const token = randomUUID();
+  const expiresAt = now + CONFIRMATION_TTL_MS;
+  pendingConfirmations.set(token, { fingerprint: fingerprintOf(env, tool, args), expiresAt });
+  return { token, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+// Consumes the token; throws if it is unknown, expired or was issued for different arguments
+export function redeemConfirmation(
+  env: AemEnvironment,
+  tool: string,
+  args: Record<string, unknown>,
+  token: string
+): void {
+  const pending = pendingConfirmations.get(token);
+  pendingConfirmations.delete(token);
+  if (!pending || pending.expiresAt <= Date.now()) {
+    throw new Error(`Confirmation token is unknown or expired. Call ${tool} without confirm_token to get a new one.`);
+  }
+  if (pending.fingerprint !== fingerprintOf(env, tool, args)) {
+    throw new Error(
+      `Confirmation token was issued for different arguments. Call ${tool} without confirm_token to preview these arguments.`
+    );
+  }
+}
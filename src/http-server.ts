@@ -0,0 +1,239 @@
+import { createServer as createHttpServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { readFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { listEnvironmentNames, runAsClient, type ClientIdentity } from './environments.js';
+import { createServer, SERVER_INFO } from './server.js';
+
+// Large enough for base64 asset and package uploads
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// A complete set for one auth type, so that no part of the profile's own
+// credentials is combined with the client's
+const credentialsSchema = z.union([
+  z.object({
+    username: z.string().min(1),
+    password: z.string().min(1),
+  }).strict(),
+  z.object({
+    clientId: z.string().min(1),
+    clientSecret: z.string().min(1),
+    scopes: z.string().optional(),
+  }).strict(),
+], { errorMap: () => ({ message: 'Give either username and password, or clientId and clientSecret (and optionally scopes)' }) });
+
+const clientsFileSchema = z.object({
+  clients: z.array(z.object({
+    name: z.string().min(1),
+    token: z.string().min(16, 'Use a random token of at least 16 characters'),
+    environments: z.array(z.string()).optional(),
+    defaultEnvironment: z.string().optional(),
+    credentials: z.record(credentialsSchema).optional(),
+  }).strict()).min(1),
+});
+
+interface Client {
+  identity: ClientIdentity;
+  tokenDigest: Buffer;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  client: ClientIdentity;
+  lastSeen: number;
+}
+
+const sessions = new Map<string, Session>();
+
+// Defaults to mcp-clients.json in the project root, next to .env
+function clientsFilePath(): string {
+  return process.env.MCP_CLIENTS_FILE || fileURLToPath(new URL('../mcp-clients.json', import.meta.url));
+}
+
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+async function loadClients(): Promise<Client[]> {
+  const path = clientsFilePath();
+  let data: string;
+  try {
+    data = await readFile(path, 'utf-8');
+  } catch (err) {
+    throw new Error(`Cannot read the HTTP client list ${path} (${err}). Set MCP_CLIENTS_FILE or create the file.`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch (err) {
+    throw new Error(`Invalid HTTP client list ${path}: ${err}`);
+  }
+  const parsed = clientsFileSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Invalid HTTP client list ${path}: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  }
+
+  const configured = listEnvironmentNames();
+  const names = new Set<string>();
+  const tokens = new Set<string>();
+  return parsed.data.clients.map(({ token, ...identity }) => {
+    if (names.has(identity.name)) throw new Error(`Duplicate HTTP client name "${identity.name}" in ${path}`);
+    if (tokens.has(token)) throw new Error(`HTTP client "${identity.name}" reuses the token of another client in ${path}`);
+    names.add(identity.name);
+    tokens.add(token);
+
+    const referenced = [
+      ...(identity.environments ?? []),
+      ...(identity.defaultEnvironment ? [identity.defaultEnvironment] : []),
+      ...Object.keys(identity.credentials ?? {}),
+    ];
+    const unknown = referenced.filter((name) => !configured.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`HTTP client "${identity.name}" refers to unknown AEM environments: ${[...new Set(unknown)].join(', ')}`);
+    }
+    if (identity.environments?.length === 0) {
+      throw new Error(`HTTP client "${identity.name}" has an empty environments list`);
+    }
+    return { identity, tokenDigest: digest(token) };
+  });
+}
+
+// Accepts `Authorization: Bearer <token>` or `X-API-Key: <token>`
+function authenticate(req: IncomingMessage, clients: Client[]): { client: ClientIdentity; token: string } | undefined {
+  const apiKey = req.headers['x-api-key'];
+  const token = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? (Array.isArray(apiKey) ? apiKey[0] : apiKey);
+  if (!token) return undefined;
+
+  const presented = digest(token);
+  const match = clients.find((client) => timingSafeEqual(client.tokenDigest, presented));
+  return match && { client: match.identity, token };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string, headers?: Record<string, string>): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null }, headers);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw Object.assign(new Error('Request body too large'), { status: 413 });
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw Object.assign(new Error('Request body is not valid JSON'), { status: 400 });
+  }
+}
+
+async function closeSession(id: string, session: Session): Promise<void> {
+  sessions.delete(id);
+  await session.server.close().catch((err) => console.error(`Closing MCP session ${id} failed:`, err));
+}
+
+// Requests carrying an mcp-session-id go to their session; an initialize request
+// without one starts a new session bound to the authenticated client
+async function handleMcpRequest(req: IncomingMessage & { auth?: AuthInfo }, res: ServerResponse, client: ClientIdentity): Promise<void> {
+  const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+  const sessionId = req.headers['mcp-session-id'];
+
+  if (typeof sessionId === 'string') {
+    const session = sessions.get(sessionId);
+    if (!session) return sendError(res, 404, -32001, 'Session not found. Start a new session with an initialize request.');
+    if (session.client.name !== client.name) return sendError(res, 403, -32000, 'Session belongs to another client');
+    session.lastSeen = Date.now();
+    return runAsClient(client, () => session.transport.handleRequest(req, res, body));
+  }
+
+  if (req.method !== 'POST' || !isInitializeRequest(body)) {
+    return sendError(res, 400, -32000, 'Missing mcp-session-id header. Start a session with an initialize request.');
+  }
+
+  const server = createServer();
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (id) => {
+      sessions.set(id, { transport, server, client, lastSeen: Date.now() });
+      console.error(`MCP session ${id} opened for client "${client.name}"`);
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) sessions.delete(transport.sessionId);
+  };
+  await server.connect(transport);
+  await runAsClient(client, () => transport.handleRequest(req, res, body));
+}
+
+export async function startHttpServer(): Promise<Server> {
+  const clients = await loadClients();
+  const host = process.env.MCP_HTTP_HOST || '127.0.0.1';
+  const port = Number(process.env.MCP_HTTP_PORT) || 3000;
+  const sessionTimeoutMs = (Number(process.env.MCP_SESSION_TIMEOUT_MINUTES) || 30) * 60 * 1000;
+  const startedAt = Date.now();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    try {
+      if (pathname === '/health') {
+        if (req.method !== 'GET') return sendJson(res, 405, { error: 'Method not allowed' }, { Allow: 'GET' });
+        return sendJson(res, 200, {
+          status: 'ok',
+          ...SERVER_INFO,
+          sessions: sessions.size,
+          uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+        });
+      }
+      if (pathname !== '/mcp') return sendJson(res, 404, { error: 'Not found' });
+
+      const auth = authenticate(req, clients);
+      if (!auth) {
+        return sendError(res, 401, -32000, 'Missing or invalid client token', { 'WWW-Authenticate': 'Bearer realm="aem-mcp"' });
+      }
+      Object.assign(req, { auth: { token: auth.token, clientId: auth.client.name, scopes: [] } });
+      await handleMcpRequest(req, res, auth.client);
+    } catch (err) {
+      const status = (err as { status?: number }).status ?? 500;
+      console.error(`HTTP ${req.method} ${pathname} failed:`, err);
+      if (!res.headersSent) sendError(res, status, status === 400 ? -32700 : -32603, String(err));
+      else res.end();
+    }
+  });
+
+  // Sessions whose client has gone away without a DELETE are closed after the timeout
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - sessionTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) void closeSession(id, session);
+    }
+  }, SESSION_SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  const shutdown = async () => {
+    clearInterval(sweep);
+    await Promise.all([...sessions].map(([id, session]) => closeSession(id, session)));
+    httpServer.close(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, resolve);
+  });
+  console.error(`aem-mcp listening on http://${host}:${port}/mcp for ${clients.length} client(s); health check at /health`);
+  return httpServer;
+}
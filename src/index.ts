@@ -1,13 +1,11 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { registerTools } from './tools.js';
+import { createServer } from './server.js';
+import { startHttpServer } from './http-server.js';
 
-const server = new McpServer({
-  name: 'aem-mcp',
-  version: '1.0.0',
-});
-
-registerTools(server);
-
-const transport = new StdioServerTransport();
-await server.connect(transport);
+// stdio by default; MCP_TRANSPORT=http or --http starts the shared HTTP server
+if (process.env.MCP_TRANSPORT === 'http' || process.argv.includes('--http')) {
+  await startHttpServer();
+} else {
+  const transport = new StdioServerTransport();
+  await createServer().connect(transport);
+}
@@ -0,0 +1,279 @@
+import { appendFile, readFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { fileURLToPath } from 'url';
+import { getEnvironment, currentClient, type AemEnvironment } from './environments.js';
+import { assertOperationAllowed } from './guardrails.js';
+import {
+  getNodeSnapshot,
+  restoreNodeSnapshot,
+  movePage,
+  moveAsset,
+  replicatePage,
+  type NodeSnapshot,
+} from './aem-client.js';
+import type { ReplicationAction } from './models.js';
+
+// Longer string arguments (e.g. base64 uploads) are shortened in the journal
+const MAX_ARGUMENT_LENGTH = 2000;
+
+// How a journaled mutation is reversed. `restore` puts the snapshotted nodes
+// back into their before state; moves and replication are reversed directly.
+export type UndoAction =
+  | { kind: 'restore' }
+  | { kind: 'move'; type: 'page' | 'asset'; from: string; to: string }
+  | { kind: 'replicate'; path: string; action: ReplicationAction };
+
+export interface SnapshotPair {
+  path: string;
+  before: NodeSnapshot;
+  after: NodeSnapshot;
+}
+
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  environment: string;
+  user: string;
+  // Client of the shared HTTP server that made the change
+  client?: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  snapshots: SnapshotPair[];
+  // Absent when the mutation cannot be undone
+  undo?: UndoAction;
+  // Set on entries written by aem_undo: the ID of the entry that was reversed
+  undoes?: string;
+}
+
+export interface JournalQuery {
+  tool?: string;
+  path?: string;
+  environment?: string;
+  since?: string;
+  limit?: number;
+  includeSnapshots?: boolean;
+}
+
+export interface UndoOptions {
+  dryRun?: boolean;
+  // Undo even if a node has changed since the journaled mutation
+  force?: boolean;
+}
+
+export interface UndoResult {
+  id: string;
+  tool: string;
+  timestamp: string;
+  status: 'undone' | 'would undo' | 'not undoable' | 'failed';
+  details?: unknown;
+  error?: string;
+}
+
+export function journalEnabled(): boolean {
+  return process.env.AEM_JOURNAL !== 'false';
+}
+
+// Defaults to aem-journal.jsonl in the project root, next to .env
+function journalPath(): string {
+  return process.env.AEM_JOURNAL_PATH || fileURLToPath(new URL('../aem-journal.jsonl', import.meta.url));
+}
+
+function userOf(env: AemEnvironment): string {
+  if (env.authType === 'basic') return env.username;
+  return env.clientId ? `technical-account:${env.clientId}` : 'access-token';
+}
+
+function journalArguments(args: Record<string, unknown>): Record<string, unknown> {
+  const { confirm_token: _token, ...rest } = args;
+  return Object.fromEntries(Object.entries(rest).map(([key, value]) => [
+    key,
+    typeof value === 'string' && value.length > MAX_ARGUMENT_LENGTH
+      ? `${value.slice(0, 100)}… (${value.length} characters)`
+      : value,
+  ]));
+}
+
+export async function readJournal(): Promise<JournalEntry[]> {
+  let data: string;
+  try {
+    data = await readFile(journalPath(), 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+  return data
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as JournalEntry);
+}
+
+async function appendEntry(entry: JournalEntry): Promise<void> {
+  await appendFile(journalPath(), `${JSON.stringify(entry)}\n`, 'utf-8');
+}
+
+// Snapshot failures are recorded on the snapshot instead of failing the mutation;
+// such entries simply cannot be restored later
+export async function captureSnapshots(paths: string[], environment?: string): Promise<NodeSnapshot[]> {
+  return Promise.all(paths.map(async (path) => {
+    try {
+      return await getNodeSnapshot(path, environment);
+    } catch (err) {
+      return { path, exists: false, error: String(err) };
+    }
+  }));
+}
+
+export async function recordMutation(
+  env: AemEnvironment,
+  tool: string,
+  args: Record<string, unknown>,
+  before: NodeSnapshot[],
+  undo?: UndoAction,
+  undoes?: string
+): Promise<JournalEntry> {
+  const after = await captureSnapshots(before.map((snapshot) => snapshot.path), env.name);
+  const client = currentClient()?.name;
+  const entry: JournalEntry = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    environment: env.name,
+    user: userOf(env),
+    ...(client ? { client } : {}),
+    tool,
+    arguments: journalArguments(args),
+    snapshots: before.map((snapshot, i) => ({ path: snapshot.path, before: snapshot, after: after[i] })),
+    ...(undo ? { undo } : {}),
+    ...(undoes ? { undoes } : {}),
+  };
+  await appendEntry(entry);
+  return entry;
+}
+
+function touchesPath(entry: JournalEntry, path: string): boolean {
+  const matches = (value: unknown) => typeof value === 'string' && (value === path || value.startsWith(`${path}/`));
+  return entry.snapshots.some((pair) => matches(pair.path)) ||
+    Object.values(entry.arguments).some((value) => Array.isArray(value) ? value.some(matches) : matches(value));
+}
+
+// Clients of the HTTP server only see, and undo, their own entries; stdio sees all
+function ownEntry(entry: JournalEntry): boolean {
+  const client = currentClient();
+  return !client || entry.client === client.name;
+}
+
+// Newest entries first. Snapshots are reduced to their paths unless requested.
+export async function queryJournal(query: JournalQuery = {}): Promise<unknown[]> {
+  const entries = await readJournal();
+  const undone = new Set(entries.map((entry) => entry.undoes).filter(Boolean));
+  const since = query.since ? Date.parse(query.since) : undefined;
+
+  return entries
+    .filter(ownEntry)
+    .filter((entry) => !query.tool || entry.tool === query.tool)
+    .filter((entry) => !query.environment || entry.environment === query.environment)
+    .filter((entry) => since === undefined || Date.parse(entry.timestamp) >= since)
+    .filter((entry) => !query.path || touchesPath(entry, query.path))
+    .reverse()
+    .slice(0, query.limit ?? 20)
+    .map((entry) => ({
+      ...entry,
+      snapshots: query.includeSnapshots ? entry.snapshots : entry.snapshots.map((pair) => pair.path),
+      undoable: !!entry.undo && !undone.has(entry.id),
+      undone: undone.has(entry.id),
+    }));
+}
+
+function sameState(a: NodeSnapshot, b: NodeSnapshot): boolean {
+  return a.exists === b.exists && JSON.stringify(a.content) === JSON.stringify(b.content);
+}
+
+async function undoEntry(env: AemEnvironment, entry: JournalEntry, force: boolean): Promise<{ details: unknown; before: NodeSnapshot[] }> {
+  const undo = entry.undo!;
+  if (undo.kind === 'move') {
+    assertOperationAllowed(env, 'write', [undo.to, undo.from]);
+    const details = undo.type === 'page'
+      ? await movePage(undo.to, undo.from.slice(0, undo.from.lastIndexOf('/')), {
+        destName: undo.from.slice(undo.from.lastIndexOf('/') + 1),
+      }, env.name)
+      : await moveAsset(undo.to, undo.from, false, env.name);
+    return { details, before: [] };
+  }
+  if (undo.kind === 'replicate') {
+    assertOperationAllowed(env, 'publish', [undo.path]);
+    return { details: await replicatePage(undo.path, undo.action, env.name), before: [] };
+  }
+
+  // Restore in reverse order so nested changes unwind before their parents
+  const pairs = [...entry.snapshots].reverse();
+  assertOperationAllowed(env, 'write', pairs.map((pair) => pair.path));
+  const current = await captureSnapshots(pairs.map((pair) => pair.path), env.name);
+  pairs.forEach((pair, i) => {
+    if (!force && !sameState(current[i], pair.after)) {
+      throw new Error(`${pair.path} has changed since ${entry.tool} ran. Pass force=true to overwrite the newer changes.`);
+    }
+  });
+
+  const details: Record<string, string> = {};
+  for (const [i, pair] of pairs.entries()) {
+    details[pair.path] = await restoreNodeSnapshot(pair.before, current[i], env.name);
+  }
+  return { details, before: current };
+}
+
+// The last `count` entries of an environment that are not undone yet, newest first
+async function undoCandidates(env: AemEnvironment, count: number): Promise<JournalEntry[]> {
+  const entries = await readJournal();
+  const undone = new Set(entries.map((entry) => entry.undoes).filter(Boolean));
+  return entries
+    .filter((entry) => ownEntry(entry) && entry.environment === env.name && !entry.undoes && !undone.has(entry.id))
+    .slice(-count)
+    .reverse();
+}
+
+function undoPathsOf(entry: JournalEntry): string[] {
+  const undo = entry.undo;
+  if (undo?.kind === 'move') return [undo.to, undo.from];
+  if (undo?.kind === 'replicate') return [undo.path];
+  return entry.snapshots.map((pair) => pair.path);
+}
+
+// Paths that undoing the last `count` mutations would change, for the path rule check
+export async function undoPaths(count = 1, environment?: string): Promise<string[]> {
+  const candidates = await undoCandidates(getEnvironment(environment), count);
+  return [...new Set(candidates.flatMap(undoPathsOf))];
+}
+
+// Reverses the last `count` journaled mutations of an environment, newest first.
+// Over HTTP these are the calling client's own mutations.
+// Stops at the first entry that cannot be undone, since older entries may depend on it.
+export async function undoMutations(count = 1, options: UndoOptions = {}, environment?: string): Promise<unknown> {
+  const env = getEnvironment(environment);
+  const candidates = await undoCandidates(env, count);
+
+  const results: UndoResult[] = [];
+  for (const entry of candidates) {
+    const result: UndoResult = { id: entry.id, tool: entry.tool, timestamp: entry.timestamp, status: 'would undo' };
+    results.push(result);
+    if (!entry.undo) {
+      result.status = 'not undoable';
+      break;
+    }
+    if (options.dryRun) {
+      result.details = entry.undo.kind === 'restore' ? entry.snapshots.map((pair) => pair.path) : entry.undo;
+      continue;
+    }
+
+    try {
+      const { details, before } = await undoEntry(env, entry, options.force ?? false);
+      await recordMutation(env, 'aem_undo', { entry: entry.id }, before, undefined, entry.id);
+      result.status = 'undone';
+      result.details = details;
+    } catch (err) {
+      result.status = 'failed';
+      result.error = String(err);
+      break;
+    }
+  }
+
+  return { environment: env.name, dryRun: !!options.dryRun, results };
+}
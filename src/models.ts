@@ -0,0 +1,338 @@
+import { z } from 'zod';
+
+// Domain models for the main AEM content types. Tools declare these schemas as
+// their output schema and return the parsed model as structured content, so
+// consumers get the same shape from every instance instead of raw Sling JSON.
+
+// A Sling JSON node: properties plus child nodes as nested objects
+export type JcrNode = Record<string, unknown>;
+
+function isNode(value: unknown): value is JcrNode {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Multi-value properties such as dc:title on some assets become their first value
+function str(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' && first ? first : undefined;
+}
+
+function num(value: unknown): number | undefined {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function strings(value: unknown): string[] {
+  if (typeof value === 'string') return value ? [value] : [];
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function properties(node: JcrNode): JcrNode {
+  return Object.fromEntries(Object.entries(node).filter(([, value]) => !isNode(value)));
+}
+
+function childNodes(node: unknown): string[] {
+  return isNode(node) ? Object.keys(node).filter((name) => isNode(node[name]) && name !== 'jcr:content') : [];
+}
+
+// ─── Pages ───────────────────────────────────────────────────────────────────
+
+export const componentSummarySchema = z.object({
+  // Path relative to jcr:content
+  path: z.string(),
+  resourceType: z.string(),
+  title: z.string().optional(),
+  text: z.string().optional(),
+  image: z.string().optional(),
+  link: z.string().optional(),
+});
+
+export type ComponentSummary = z.infer<typeof componentSummarySchema>;
+
+export const pageSummarySchema = z.object({
+  path: z.string(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  template: z.string().optional(),
+  lastModified: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  components: z.array(componentSummarySchema),
+  childPages: z.array(z.string()),
+});
+
+export type PageSummary = z.infer<typeof pageSummarySchema>;
+
+export const pageSchema = z.object({
+  path: z.string(),
+  name: z.string(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  template: z.string().optional(),
+  resourceType: z.string().optional(),
+  lastModified: z.string().optional(),
+  lastModifiedBy: z.string().optional(),
+  lastReplicated: z.string().optional(),
+  lastReplicationAction: z.string().optional(),
+  tags: z.array(z.string()),
+  childPages: z.array(z.string()),
+  // Only when the page is read as a summary
+  components: z.array(componentSummarySchema).optional(),
+});
+
+export type Page = z.infer<typeof pageSchema>;
+
+// Accepts a page node with its jcr:content, or a jcr:content node on its own
+export function toPage(path: string, node: JcrNode): Page {
+  const content = isNode(node['jcr:content']) ? node['jcr:content'] : node;
+  return pageSchema.parse({
+    path,
+    name: path.slice(path.lastIndexOf('/') + 1),
+    title: str(content['jcr:title']),
+    description: str(content['jcr:description']),
+    template: str(content['cq:template']),
+    resourceType: str(content['sling:resourceType']),
+    lastModified: str(content['cq:lastModified'] ?? content['jcr:lastModified']),
+    lastModifiedBy: str(content['cq:lastModifiedBy'] ?? content['jcr:lastModifiedBy']),
+    lastReplicated: str(content['cq:lastReplicated']),
+    lastReplicationAction: str(content['cq:lastReplicationAction']),
+    tags: strings(content['cq:tags']),
+    childPages: childNodes(node)
+      .filter((name) => (node[name] as JcrNode)['jcr:primaryType'] === 'cq:Page')
+      .map((name) => `${path}/${name}`),
+  });
+}
+
+// ─── Assets ──────────────────────────────────────────────────────────────────
+
+export const assetSchema = z.object({
+  path: z.string(),
+  name: z.string(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  mimeType: z.string().optional(),
+  size: z.number().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  created: z.string().optional(),
+  lastModified: z.string().optional(),
+  lastModifiedBy: z.string().optional(),
+  tags: z.array(z.string()),
+  // Properties of jcr:content/metadata: Dublin Core, XMP, EXIF and custom fields
+  metadata: z.record(z.unknown()),
+  renditions: z.array(z.string()),
+});
+
+export type Asset = z.infer<typeof assetSchema>;
+
+// Expects the asset node read at least three levels deep, so that metadata and
+// rendition names are included
+export function toAsset(path: string, node: JcrNode): Asset {
+  const content = isNode(node['jcr:content']) ? node['jcr:content'] : {};
+  const metadata = isNode(content.metadata) ? content.metadata : {};
+  return assetSchema.parse({
+    path,
+    name: path.slice(path.lastIndexOf('/') + 1),
+    title: str(metadata['dc:title']),
+    description: str(metadata['dc:description']),
+    mimeType: str(metadata['dc:format']),
+    size: num(metadata['dam:size']),
+    width: num(metadata['tiff:ImageWidth'] ?? metadata['exif:PixelXDimension']),
+    height: num(metadata['tiff:ImageLength'] ?? metadata['exif:PixelYDimension']),
+    created: str(node['jcr:created']),
+    lastModified: str(content['jcr:lastModified']),
+    lastModifiedBy: str(content['jcr:lastModifiedBy']),
+    tags: strings(metadata['cq:tags']),
+    metadata: properties(metadata),
+    renditions: childNodes(content.renditions),
+  });
+}
+
+export const renditionSchema = z.object({
+  name: z.string(),
+  path: z.string(),
+  mimeType: z.string().optional(),
+  size: z.number().optional(),
+  lastModified: z.string().optional(),
+});
+
+export type Rendition = z.infer<typeof renditionSchema>;
+
+// Expects the renditions folder read two levels deep. Sling reports binary
+// properties such as :jcr:data as their length.
+export function toRenditions(assetPath: string, renditions: JcrNode): Rendition[] {
+  return childNodes(renditions).map((name) => {
+    const node = renditions[name] as JcrNode;
+    const content = isNode(node['jcr:content']) ? node['jcr:content'] : {};
+    return renditionSchema.parse({
+      name,
+      path: `${assetPath}/jcr:content/renditions/${name}`,
+      mimeType: str(content['jcr:mimeType']),
+      size: num(content[':jcr:data']),
+      lastModified: str(content['jcr:lastModified']),
+    });
+  });
+}
+
+// ─── Content Fragments ───────────────────────────────────────────────────────
+
+export const fragmentFieldValueSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  multiple: z.boolean(),
+  // References are inlined as fragments or asset/page summaries when resolved
+  value: z.unknown(),
+  // 'master' or the variation name the value was read from
+  source: z.string(),
+});
+
+export type FragmentFieldValue = z.infer<typeof fragmentFieldValueSchema>;
+
+export const contentFragmentSchema = z.object({
+  path: z.string(),
+  title: z.string().optional(),
+  model: z.string().optional(),
+  variation: z.string(),
+  fields: z.array(fragmentFieldValueSchema),
+});
+
+export type ContentFragment = z.infer<typeof contentFragmentSchema>;
+
+// ─── Search ──────────────────────────────────────────────────────────────────
+
+// Fields of QueryBuilder's default (simple) hits
+const SIMPLE_HIT_FIELDS = ['path', 'name', 'title', 'excerpt', 'lastModified', 'created'];
+
+export const searchHitSchema = z.object({
+  path: z.string(),
+  name: z.string().optional(),
+  title: z.string().optional(),
+  excerpt: z.string().optional(),
+  lastModified: z.string().optional(),
+  created: z.string().optional(),
+  // The remaining properties of full and selective hits (p.hits=full, p.properties)
+  properties: z.record(z.unknown()).optional(),
+});
+
+export type SearchHit = z.infer<typeof searchHitSchema>;
+
+export const searchResultSchema = z.object({
+  total: z.number().optional(),
+  offset: z.number().optional(),
+  more: z.boolean().optional(),
+  hits: z.array(searchHitSchema),
+  // Set on auto-paginated queries
+  pages: z.number().optional(),
+  truncated: z.boolean().optional(),
+  nextOffset: z.number().optional(),
+});
+
+export type SearchResult = z.infer<typeof searchResultSchema>;
+
+export function toSearchHit(hit: JcrNode): SearchHit {
+  const rest = Object.fromEntries(
+    Object.entries(hit).filter(([key]) => !SIMPLE_HIT_FIELDS.includes(key) && key !== 'jcr:path')
+  );
+  return searchHitSchema.parse({
+    path: str(hit.path) ?? str(hit['jcr:path']) ?? '',
+    name: str(hit.name),
+    title: str(hit.title),
+    excerpt: str(hit.excerpt),
+    lastModified: str(hit.lastModified),
+    created: str(hit.created),
+    properties: Object.keys(rest).length > 0 ? rest : undefined,
+  });
+}
+
+// Parses a QueryBuilder response
+export function toSearchResult(response: JcrNode): SearchResult {
+  const hits = Array.isArray(response.hits) ? response.hits.filter(isNode) : [];
+  return searchResultSchema.parse({
+    total: num(response.total),
+    offset: num(response.offset),
+    more: typeof response.more === 'boolean' ? response.more : undefined,
+    hits: hits.map(toSearchHit),
+  });
+}
+
+// ─── Replication ─────────────────────────────────────────────────────────────
+
+export const replicationActionSchema = z.enum(['Activate', 'Deactivate']);
+
+export type ReplicationAction = z.infer<typeof replicationActionSchema>;
+
+export const replicationStatusSchema = z.object({
+  path: z.string(),
+  lastReplicated: z.string().optional(),
+  lastReplicatedBy: z.string().optional(),
+  lastReplicationAction: z.string().optional(),
+  lastModified: z.string().optional(),
+  modifiedSinceReplication: z.boolean(),
+});
+
+export type ReplicationStatus = z.infer<typeof replicationStatusSchema>;
+
+export const replicationResultSchema = z.object({
+  path: z.string(),
+  action: replicationActionSchema,
+  success: z.boolean(),
+  // True when the node's replication status reflects the requested action
+  verified: z.boolean().optional(),
+  error: z.string().optional(),
+});
+
+export type ReplicationResult = z.infer<typeof replicationResultSchema>;
+
+export const treeReplicationResultSchema = z.object({
+  rootPath: z.string(),
+  action: replicationActionSchema,
+  dryRun: z.boolean(),
+  // Pages that passed the filters, and pages that did not
+  matched: z.number(),
+  skipped: z.number(),
+  succeeded: z.number().optional(),
+  failed: z.number().optional(),
+  // Matched paths on dry runs; per-path results otherwise
+  paths: z.array(z.string()).optional(),
+  results: z.array(replicationResultSchema).optional(),
+});
+
+export type TreeReplicationResult = z.infer<typeof treeReplicationResultSchema>;
+
+// Parses the jcr:content node of a page or asset
+export function toReplicationStatus(path: string, content: JcrNode): ReplicationStatus {
+  const lastReplicated = str(content['cq:lastReplicated']);
+  const lastModified = str(content['cq:lastModified'] ?? content['jcr:lastModified']);
+  return replicationStatusSchema.parse({
+    path,
+    lastReplicated,
+    lastReplicatedBy: str(content['cq:lastReplicatedBy']),
+    lastReplicationAction: str(content['cq:lastReplicationAction']),
+    lastModified,
+    modifiedSinceReplication: !lastReplicated ||
+      (!!lastModified && new Date(lastModified).getTime() > new Date(lastReplicated).getTime()),
+  });
+}
+
+// ─── Confirmation ────────────────────────────────────────────────────────────
+
+// What a destructive tool returns instead of running when the environment asks
+// for confirmation
+export const confirmationSchema = z.object({
+  confirmationRequired: z.literal(true),
+  tool: z.string(),
+  environment: z.string(),
+  operation: z.string(),
+  paths: z.array(z.string()),
+  preview: z.unknown().optional(),
+  confirmToken: z.string(),
+  expiresAt: z.string(),
+  message: z.string(),
+});
+
+export type Confirmation = z.infer<typeof confirmationSchema>;
+
+// Output schema of a destructive tool, which returns either its result or a
+// confirmation; the fields of both are therefore optional
+export function orConfirmation<T extends z.ZodRawShape>(schema: z.ZodObject<T>) {
+  return schema.partial().merge(confirmationSchema.partial());
+}
@@ -0,0 +1,190 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import {
+  getPage,
+  listPages,
+  getComponentTree,
+  searchContent,
+  getResolvedContentFragment,
+  getContentFragmentModel,
+  listVersions,
+  getVersionContent,
+} from './aem-client.js';
+import { queryJournal } from './journal.js';
+
+// Context blocks longer than this are cut so a prompt stays within a sensible size
+const MAX_CONTEXT_CHARS = 30_000;
+
+const environmentArg = z
+  .string()
+  .optional()
+  .describe('Name of the AEM environment profile to read from. Defaults to the default profile.');
+
+function userMessage(text: string) {
+  return { role: 'user' as const, content: { type: 'text' as const, text } };
+}
+
+// Loads one piece of context as a fenced JSON block. A failure is reported in
+// the prompt instead of failing it, so the assistant can still work with the rest.
+async function contextBlock(label: string, load: () => Promise<unknown>): Promise<string> {
+  try {
+    const data = await load();
+    let json = JSON.stringify(data, null, 2);
+    if (json.length > MAX_CONTEXT_CHARS) {
+      json = `${json.slice(0, MAX_CONTEXT_CHARS)}\n… (truncated, ${json.length} characters in total)`;
+    }
+    return `${label}:\n\`\`\`json\n${json}\n\`\`\``;
+  } catch (err) {
+    return `${label}: could not be loaded (${err})`;
+  }
+}
+
+export function registerPrompts(server: McpServer): void {
+  server.prompt(
+    'aem_draft_page',
+    'Draft a new page under a parent page from a template, grounded in the parent page, its siblings and the template structure.',
+    {
+      parent_path: z.string().describe('JCR path of the parent page, e.g. /content/mysite/en/news'),
+      template: z.string().describe('Template path, e.g. /conf/mysite/settings/wcm/templates/article'),
+      brief: z.string().describe('What the page should be about and who it is for'),
+      environment: environmentArg,
+    },
+    async ({ parent_path, template, brief, environment }) => {
+      const context = await Promise.all([
+        contextBlock(`Parent page ${parent_path} (jcr:content)`, () => getPage(`${parent_path}/jcr:content`, undefined, environment)),
+        contextBlock(`Existing child pages of ${parent_path}`, () => listPages(parent_path, environment)),
+        contextBlock(`Components in the structure of template ${template}`, () => getComponentTree(`${template}/structure`, environment)),
+      ]);
+      return {
+        description: `Draft a page under ${parent_path}`,
+        messages: [
+          userMessage(
+            `Draft a new AEM page under ${parent_path} using the template ${template}.\n\n` +
+            `Brief: ${brief}\n\n` +
+            'Propose a page name (URL-safe, not clashing with the existing child pages), a title, a description and tags, ' +
+            'then the text and image content for each editable component of the template. Match the tone and conventions ' +
+            'of the parent page. Show the draft for review first; once approved, create it with aem_create_page, ' +
+            'aem_update_page and aem_add_component / aem_update_component' +
+            (environment ? ` on the "${environment}" environment.` : '.')
+          ),
+          userMessage(context.join('\n\n')),
+        ],
+      };
+    }
+  );
+
+  server.prompt(
+    'aem_seo_audit',
+    'Audit the pages of a subtree for SEO issues, grounded in the titles, descriptions and robots settings of every page.',
+    {
+      root_path: z.string().describe('JCR path of the subtree root, e.g. /content/mysite/en'),
+      environment: environmentArg,
+    },
+    async ({ root_path, environment }) => {
+      const pages = await contextBlock(`SEO properties of the pages under ${root_path}`, () => searchContent({
+        path: root_path,
+        type: 'cq:Page',
+        limit: 500,
+        'p.hits': 'selective',
+        'p.properties': [
+          'jcr:path',
+          'jcr:content/jcr:title',
+          'jcr:content/pageTitle',
+          'jcr:content/navTitle',
+          'jcr:content/jcr:description',
+          'jcr:content/cq:robotsTags',
+          'jcr:content/cq:canonicalUrl',
+          'jcr:content/cq:lastModified',
+          'jcr:content/cq:lastReplicationAction',
+        ].join(' '),
+      }, environment));
+      return {
+        description: `SEO audit of ${root_path}`,
+        messages: [
+          userMessage(
+            `Audit the pages under ${root_path} for SEO issues. For each issue, name the page path, the problem and a concrete fix.\n\n` +
+            'Check for: missing or duplicate titles; titles longer than 60 characters; missing, duplicate or too short/long ' +
+            '(outside 50–160 characters) descriptions; noindex/nofollow robots tags on published pages; missing canonical URLs ' +
+            'where duplicates are likely; page names that are not lowercase and hyphenated; and unpublished or stale pages.\n\n' +
+            'Group the findings by severity and end with a short summary. Do not change anything; fixes can be applied ' +
+            'afterwards with aem_update_page.'
+          ),
+          userMessage(pages),
+        ],
+      };
+    }
+  );
+
+  server.prompt(
+    'aem_translate_fragment',
+    'Translate a Content Fragment into another locale, grounded in its current field values and its model.',
+    {
+      fragment_path: z.string().describe('JCR path of the fragment, e.g. /content/dam/mysite/en/articles/launch'),
+      locale: z.string().describe('Target locale, e.g. de or fr_CA'),
+      environment: environmentArg,
+    },
+    async ({ fragment_path, locale, environment }) => {
+      let model: string | undefined;
+      const fragment = await contextBlock(`Fragment ${fragment_path}`, async () => {
+        const result = await getResolvedContentFragment(fragment_path, { depth: 0 }, environment);
+        model = result.model;
+        return result;
+      });
+      const modelSchema = model
+        ? await contextBlock(`Model ${model}`, () => getContentFragmentModel(model!, environment))
+        : 'Model: unknown';
+      const context = [fragment, modelSchema];
+      return {
+        description: `Translate ${fragment_path} into ${locale}`,
+        messages: [
+          userMessage(
+            `Translate the Content Fragment ${fragment_path} into the locale "${locale}".\n\n` +
+            'Translate only text fields (single- and multi-line text, including rich text, keeping its HTML markup). ' +
+            'Leave enumerations, numbers, dates, booleans, tags and references (fragment and asset paths) unchanged, ' +
+            'and respect the maximum lengths and validation rules in the model. Keep product names and brand terms as they are.\n\n' +
+            'Show the translated field values for review first. Once approved, write them to the existing language copy ' +
+            'with aem_update_content_fragment, or create it in the target language folder with aem_create_content_fragment' +
+            (environment ? ` on the "${environment}" environment.` : '.')
+          ),
+          userMessage(context.join('\n\n')),
+        ],
+      };
+    }
+  );
+
+  server.prompt(
+    'aem_summarize_page_changes',
+    'Summarize what changed on a page, grounded in its current content, its latest version and the local mutation journal.',
+    {
+      page_path: z.string().describe('JCR path of the page, e.g. /content/mysite/en/about'),
+      environment: environmentArg,
+    },
+    async ({ page_path, environment }) => {
+      const versions = await listVersions(page_path, environment).catch(() => []);
+      const latest = [...versions].sort((a, b) => (Date.parse(b.created ?? '') || 0) - (Date.parse(a.created ?? '') || 0))[0];
+      const context = await Promise.all([
+        contextBlock(`Current content of ${page_path}`, () => getPage(`${page_path}/jcr:content`, undefined, environment)),
+        latest
+          ? contextBlock(`Content of the latest version ${latest.name} (${latest.created ?? 'unknown date'})`, () =>
+            getVersionContent(page_path, latest.name, environment))
+          : Promise.resolve('Latest version: the page has no versions'),
+        contextBlock('Versions', async () => versions),
+        contextBlock('Changes made through this server (mutation journal)', () =>
+          queryJournal({ path: page_path, environment, limit: 20 })),
+      ]);
+      return {
+        description: `Summarize changes to ${page_path}`,
+        messages: [
+          userMessage(
+            `Summarize what changed on the page ${page_path}.\n\n` +
+            'Compare the current content with the latest version and describe the differences in plain language for an ' +
+            'editor: changed properties (title, description, tags), added, removed or moved components, and edited text. ' +
+            'Ignore technical properties such as jcr:lastModified, cq:lastReplicated and jcr:uuid. Mention who made ' +
+            'journaled changes and when. If the page has no versions, describe its current state and the journaled changes.'
+          ),
+          userMessage(context.join('\n\n')),
+        ],
+      };
+    }
+  );
+}
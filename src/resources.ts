@@ -0,0 +1,239 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  getPage,
+  listPages,
+  searchContent,
+  getAsset,
+  getAssetRendition,
+  getResolvedContentFragment,
+  getContentFragmentModel,
+} from './aem-client.js';
+import { htmlToMarkdown } from './shaping.js';
+import { toAsset } from './models.js';
+
+// Resources always read from the default environment profile; tools take an
+// explicit `environment` argument instead.
+
+// Maximum number of resources returned when a client lists a template
+const LIST_LIMIT = 100;
+
+// Sling resource type of Content Fragment model templates under /conf
+const FRAGMENT_MODEL_RESOURCE_TYPE = 'dam/cfm/models/console/components/data/entity/default';
+
+const FOLDER_TYPES = new Set(['sling:Folder', 'sling:OrderedFolder', 'nt:folder']);
+
+interface QueryHit {
+  path: string;
+  name?: string;
+  title?: string;
+}
+
+// {+path} matches the JCR path without its leading slash, e.g. aem://page/content/mysite/en
+function jcrPath(variables: Variables): string {
+  const value = Array.isArray(variables.path) ? variables.path.join('/') : variables.path;
+  return `/${decodeURIComponent(value).replace(/^\/+/, '')}`;
+}
+
+function resourceUri(kind: string, path: string): string {
+  return `aem://${kind}${encodeURI(path)}`;
+}
+
+async function listHits(params: Record<string, string | number>): Promise<QueryHit[]> {
+  const result = await searchContent({ limit: LIST_LIMIT, ...params }) as { hits?: QueryHit[] };
+  return result.hits ?? [];
+}
+
+function jsonContents(uri: URL, data: unknown) {
+  return {
+    contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+// Walks the component tree in document order and keeps what a reader would see:
+// titles, text and image references
+function collectPageText(node: Record<string, unknown>, lines: string[]): void {
+  const title = node['jcr:title'] ?? node.title;
+  if (typeof node['sling:resourceType'] === 'string' && typeof title === 'string' && title) {
+    lines.push(`## ${title}`);
+  }
+  if (typeof node.text === 'string' && node.text) {
+    lines.push(node.textIsRich === 'false' || node.textIsRich === false ? node.text : htmlToMarkdown(node.text));
+  }
+  if (typeof node.fileReference === 'string') {
+    const alt = typeof node.alt === 'string' ? node.alt : node.fileReference.split('/').pop();
+    lines.push(`![${alt}](${resourceUri('asset', node.fileReference)})`);
+  }
+  for (const value of Object.values(node)) {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      collectPageText(value as Record<string, unknown>, lines);
+    }
+  }
+}
+
+function pageToMarkdown(pagePath: string, content: Record<string, unknown>): string {
+  const lines = [`# ${content['jcr:title'] ?? pagePath.split('/').pop()}`, ''];
+  if (typeof content['jcr:description'] === 'string') lines.push(`> ${content['jcr:description']}`, '');
+
+  lines.push(`- Path: ${pagePath}`);
+  if (content['cq:template']) lines.push(`- Template: ${content['cq:template']}`);
+  if (content['cq:lastModified']) lines.push(`- Last modified: ${content['cq:lastModified']} by ${content['cq:lastModifiedBy'] ?? 'unknown'}`);
+  if (content['cq:lastReplicationAction']) lines.push(`- Replication: ${content['cq:lastReplicationAction']} (${content['cq:lastReplicated']})`);
+  if (Array.isArray(content['cq:tags']) && content['cq:tags'].length > 0) lines.push(`- Tags: ${content['cq:tags'].join(', ')}`);
+  lines.push('');
+
+  const body: string[] = [];
+  for (const value of Object.values(content)) {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      collectPageText(value as Record<string, unknown>, body);
+    }
+  }
+  return [...lines, ...body.flatMap((block) => [block, ''])].join('\n').trim();
+}
+
+// Classifies the children of a node so clients can browse into pages, assets
+// and folders. Depth 1 does not include jcr:content, so fragments show up as assets.
+async function listChildren(path: string): Promise<unknown> {
+  const node = await listPages(path) as Record<string, unknown>;
+  const children = [];
+  for (const [name, value] of Object.entries(node)) {
+    if (!value || typeof value !== 'object' || Array.isArray(value) || name === 'jcr:content') continue;
+    const type = (value as Record<string, unknown>)['jcr:primaryType'] as string;
+    const childPath = `${path === '/' ? '' : path}/${name}`;
+    const kind = type === 'cq:Page' ? 'page' : type === 'dam:Asset' ? 'asset' : FOLDER_TYPES.has(type) ? 'tree' : undefined;
+    if (kind) children.push({ name, type, path: childPath, uri: resourceUri(kind, childPath) });
+  }
+  return { path, children };
+}
+
+export function registerResources(server: McpServer): void {
+  server.resource(
+    'aem-page',
+    new ResourceTemplate('aem://page/{+path}', {
+      list: async () => ({
+        resources: (await listHits({
+          path: '/content',
+          type: 'cq:Page',
+          orderby: '@jcr:content/cq:lastModified',
+          'orderby.sort': 'desc',
+        })).map((hit) => ({
+          uri: resourceUri('page', hit.path),
+          name: hit.title || hit.name || hit.path,
+          mimeType: 'text/markdown',
+        })),
+      }),
+    }),
+    {
+      description: 'An AEM page rendered as markdown: title, description, properties and the text and images of its components',
+      mimeType: 'text/markdown',
+    },
+    async (uri, variables) => {
+      const pagePath = jcrPath(variables);
+      const content = await getPage(`${pagePath}/jcr:content`) as Record<string, unknown>;
+      return {
+        contents: [{ uri: uri.href, mimeType: 'text/markdown', text: pageToMarkdown(pagePath, content) }],
+      };
+    }
+  );
+
+  server.resource(
+    'aem-asset',
+    new ResourceTemplate('aem://asset/{+path}', {
+      list: async () => ({
+        resources: (await listHits({
+          path: '/content/dam',
+          type: 'dam:Asset',
+          orderby: '@jcr:content/jcr:lastModified',
+          'orderby.sort': 'desc',
+        })).map((hit) => ({
+          uri: resourceUri('asset', hit.path),
+          name: hit.name || hit.path,
+        })),
+      }),
+    }),
+    {
+      description: 'A DAM asset: images as their web rendition, text files as text, anything else as JSON metadata',
+    },
+    async (uri, variables) => {
+      const assetPath = jcrPath(variables);
+      const rendition = await getAssetRendition(assetPath).catch(() => undefined);
+      if (rendition?.mimeType.startsWith('image/') && rendition.mimeType !== 'image/svg+xml') {
+        return {
+          contents: [{ uri: uri.href, mimeType: rendition.mimeType, blob: rendition.data.toString('base64') }],
+        };
+      }
+      if (rendition && (rendition.mimeType.startsWith('text/') || /json|xml/.test(rendition.mimeType))) {
+        return {
+          contents: [{ uri: uri.href, mimeType: rendition.mimeType, text: rendition.data.toString('utf-8') }],
+        };
+      }
+      return jsonContents(uri, toAsset(assetPath, await getAsset(assetPath)));
+    }
+  );
+
+  server.resource(
+    'aem-content-fragment',
+    new ResourceTemplate('aem://content-fragment/{+path}', {
+      list: async () => ({
+        resources: (await listHits({
+          path: '/content/dam',
+          type: 'dam:Asset',
+          property: 'jcr:content/contentFragment',
+          'property.value': 'true',
+          orderby: '@jcr:content/jcr:lastModified',
+          'orderby.sort': 'desc',
+        })).map((hit) => ({
+          uri: resourceUri('content-fragment', hit.path),
+          name: hit.title || hit.name || hit.path,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    {
+      description: 'A Content Fragment as JSON: its model, master fields and direct references resolved one level deep',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => jsonContents(uri, await getResolvedContentFragment(jcrPath(variables), { depth: 1 }))
+  );
+
+  server.resource(
+    'aem-content-fragment-model',
+    new ResourceTemplate('aem://content-fragment-model/{+path}', {
+      list: async () => ({
+        resources: (await listHits({
+          path: '/conf',
+          type: 'cq:Template',
+          property: 'jcr:content/sling:resourceType',
+          'property.value': FRAGMENT_MODEL_RESOURCE_TYPE,
+        })).map((hit) => ({
+          uri: resourceUri('content-fragment-model', hit.path),
+          name: hit.title || hit.name || hit.path,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    {
+      description: 'A Content Fragment model as JSON: its fields with types, constraints and allowed values',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => jsonContents(uri, await getContentFragmentModel(jcrPath(variables)))
+  );
+
+  server.resource(
+    'aem-tree',
+    new ResourceTemplate('aem://tree/{+path}', {
+      list: async () => ({
+        resources: ['/content', '/content/dam', '/conf'].map((path) => ({
+          uri: resourceUri('tree', path),
+          name: path,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    {
+      description: 'The children of a repository node as JSON, with the resource URI of each page, asset and folder, for browsing a subtree',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => jsonContents(uri, await listChildren(jcrPath(variables)))
+  );
+}
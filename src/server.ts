@@ -0,0 +1,20 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerTools } from './tools.js';
+import { registerResources } from './resources.js';
+import { registerPrompts } from './prompts.js';
+
+export const SERVER_INFO = {
+  name: 'aem-mcp',
+  version: '1.0.0',
+};
+
+// One server per connection: stdio has a single one, the HTTP transport one per session
+export function createServer(): McpServer {
+  const server = new McpServer(SERVER_INFO);
+
+  registerTools(server);
+  registerResources(server);
+  registerPrompts(server);
+
+  return server;
+}
@@ -0,0 +1,167 @@
+import type { ComponentSummary, PageSummary } from './models.js';
+
+// Response shaping for large JCR payloads: noise stripping, depth limits,
+// property filters, page summaries and a size budget for tool responses.
+
+const DEFAULT_MAX_RESPONSE_CHARS = 80_000;
+
+// Repository bookkeeping that is rarely useful to a reader. Binary properties
+// (":jcr:data") only carry their length. Wildcards match agent-specific variants
+// such as cq:lastReplicated_publish.
+const NOISE_PATTERNS = [
+  'jcr:uuid',
+  'jcr:created',
+  'jcr:createdBy',
+  'jcr:lastModifiedBy',
+  'cq:lastModifiedBy',
+  'jcr:baseVersion',
+  'jcr:predecessors',
+  'jcr:versionHistory',
+  'jcr:isCheckedOut',
+  'jcr:mixinTypes',
+  'jcr:lockOwner',
+  'jcr:lockIsDeep',
+  'cq:lastReplicatedBy*',
+  'cq:lastReplicated_*',
+  'cq:lastReplicationAction_*',
+  'cq:lastRolledout*',
+  'rep:*',
+  ':*',
+];
+
+// Text-bearing properties kept by the page summary
+const SUMMARY_PROPERTIES = ['jcr:title', 'title', 'text', 'alt', 'fileReference', 'linkURL', 'link'];
+
+// Levels read below a page for its summary. Deep enough for jcr:content and
+// nested layout containers; unlike .infinity.json, Sling does not refuse a
+// bounded read of a large page.
+export const SUMMARY_DEPTH = 10;
+
+export interface ShapeOptions {
+  // Levels of child nodes to keep below the root; unlimited when omitted
+  depth?: number;
+  // Property names or wildcard patterns (e.g. "cq:*") to keep; all when empty
+  include?: string[];
+  // Property or child node names or wildcard patterns to drop
+  exclude?: string[];
+  keepSystemProperties?: boolean;
+}
+
+function isNode(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toPattern(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+function matcher(patterns: string[] | undefined): (name: string) => boolean {
+  const regexes = (patterns ?? []).map(toPattern);
+  return (name) => regexes.some((regex) => regex.test(name));
+}
+
+export function maxResponseChars(): number {
+  return Number(process.env.AEM_MAX_RESPONSE_CHARS) || DEFAULT_MAX_RESPONSE_CHARS;
+}
+
+export function htmlToMarkdown(html: string): string {
+  return html
+    .replace(/<h([1-6])[^>]*>/gi, (_, level: string) => `\n${'#'.repeat(Number(level) + 1)} `)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<(br|\/p|\/h[1-6]|\/ul|\/ol)\s*\/?>/gi, '\n')
+    .replace(/<a [^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, '[$2]($1)')
+    .replace(/<\/?(strong|b)>/gi, '**')
+    .replace(/<\/?(em|i)>/gi, '_')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Applies the filters to a Sling JSON node tree. Child nodes below the depth
+// limit are replaced by a note naming the path to read instead.
+export function shapeNode(data: unknown, options: ShapeOptions = {}, path = ''): unknown {
+  const isNoise = options.keepSystemProperties ? () => false : matcher(NOISE_PATTERNS);
+  const isIncluded = options.include?.length ? matcher(options.include) : () => true;
+  const isExcluded = matcher(options.exclude);
+
+  const walk = (node: Record<string, unknown>, nodePath: string, level: number): Record<string, unknown> => {
+    const shaped: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      if (isNoise(key) || isExcluded(key)) continue;
+      const childPath = `${nodePath}/${key}`;
+      if (isNode(value)) {
+        shaped[key] = options.depth !== undefined && level >= options.depth
+          ? `(child node omitted — read ${childPath} or raise depth)`
+          : walk(value, childPath, level + 1);
+      } else if (key === 'jcr:primaryType' && value === 'nt:unstructured' && !options.keepSystemProperties) {
+        continue;
+      } else if (isIncluded(key)) {
+        shaped[key] = value;
+      }
+    }
+    return shaped;
+  };
+
+  return isNode(data) ? walk(data, path, 0) : data;
+}
+
+function collectSummary(node: Record<string, unknown>, rel: string, components: ComponentSummary[]): void {
+  for (const [key, value] of Object.entries(node)) {
+    if (!isNode(value)) continue;
+    const childRel = rel ? `${rel}/${key}` : key;
+    if (typeof value['sling:resourceType'] === 'string') {
+      const component: ComponentSummary = { path: childRel, resourceType: value['sling:resourceType'] };
+      for (const property of SUMMARY_PROPERTIES) {
+        const prop = value[property];
+        if (typeof prop !== 'string' || !prop) continue;
+        if (property === 'text') component.text = value.textIsRich === 'false' ? prop : htmlToMarkdown(prop);
+        else if (property === 'fileReference') component.image = prop;
+        else if (property === 'linkURL' || property === 'link') component.link = prop;
+        else if (property !== 'alt' || !component.title) component.title = prop;
+      }
+      components.push(component);
+    }
+    collectSummary(value, childRel, components);
+  }
+}
+
+// Reduces a page (or a version of one) to its properties, component tree and text
+export function summarizePage(path: string, page: Record<string, unknown>): PageSummary {
+  const content = isNode(page['jcr:content']) ? page['jcr:content'] : page;
+  const components: ComponentSummary[] = [];
+  collectSummary(content, '', components);
+  return {
+    path,
+    title: content['jcr:title'] as string | undefined,
+    description: content['jcr:description'] as string | undefined,
+    template: content['cq:template'] as string | undefined,
+    lastModified: content['cq:lastModified'] as string | undefined,
+    tags: content['cq:tags'] as string[] | undefined,
+    components,
+    childPages: Object.entries(page)
+      .filter(([, value]) => isNode(value) && value['jcr:primaryType'] === 'cq:Page')
+      .map(([name]) => `${path}/${name}`),
+  };
+}
+
+// Child node paths at the top of a node tree, offered as drill-down targets
+export function childPaths(path: string, data: unknown, limit = 10): string[] {
+  if (!isNode(data)) return [];
+  return Object.entries(data)
+    .filter(([, value]) => isNode(value))
+    .slice(0, limit)
+    .map(([name]) => `${path}/${name}`);
+}
+
+// Cuts text to the budget and appends a note on how to get the rest
+export function applyBudget(text: string, maxChars: number, hint?: string): string {
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars)}\n\n[Truncated: showing ${maxChars} of ${text.length} characters. ` +
+    `${hint ?? 'Narrow the request or raise max_chars to see more.'}]`;
+}
@@ -1,34 +1,254 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { posix } from 'path';
 import { z } from 'zod';
+import { getEnvironment, type AemEnvironment, type GuardedOperation } from './environments.js';
+import { assertOperationAllowed, issueConfirmation, redeemConfirmation } from './guardrails.js';
+import { maxResponseChars, applyBudget, shapeNode, summarizePage, childPaths, SUMMARY_DEPTH } from './shaping.js';
+import { journalEnabled, captureSnapshots, recordMutation, queryJournal, undoMutations, undoPaths, type UndoAction } from './journal.js';
+import {
+  toAsset,
+  toPage,
+  toSearchResult,
+  assetSchema,
+  contentFragmentSchema,
+  orConfirmation,
+  pageSchema,
+  renditionSchema,
+  replicationResultSchema,
+  replicationStatusSchema,
+  searchResultSchema,
+  treeReplicationResultSchema,
+  type Confirmation,
+} from './models.js';
 import {
   checkConnection,
+  listEnvironments,
   getPage,
   listPages,
   createPage,
   updatePageProperties,
   deletePage,
+  movePage,
+  renamePage,
+  copyPage,
+  getComponentTree,
+  addComponent,
+  updateComponent,
+  moveComponent,
+  deleteComponent,
   searchContent,
+  runQuery,
   getAsset,
   listAssets,
   getAssetRenditions,
+  getAssetRendition,
+  uploadAsset,
+  updateAssetMetadata,
+  batchUpdateAssetMetadata,
+  createAssetFolder,
+  moveAsset,
+  renameAsset,
+  deleteAsset,
   getContentFragment,
+  getResolvedContentFragment,
+  listFragmentVariations,
+  createFragmentVariation,
+  updateFragmentVariation,
+  deleteFragmentVariation,
   listContentFragments,
   createContentFragment,
+  getContentFragmentModel,
   updateContentFragment,
+  listGraphqlEndpoints,
+  getGraphqlSchema,
+  runGraphqlQuery,
+  listPersistedQueries,
+  createPersistedQuery,
+  updatePersistedQuery,
+  executePersistedQuery,
+  persistedQueryPath,
   replicatePage,
+  createVersion,
+  listVersions,
+  getVersionContent,
+  restoreVersion,
+  getLiveRelationships,
+  liveCopyPaths,
+  getPageReferences,
+  rolloutPage,
+  setInheritance,
+  inheritanceNodePath,
+  listLanguageRoots,
+  findMissingLanguagePages,
+  createLanguageCopies,
+  languageCopyTargets,
+  createTranslationProject,
+  getTranslationStatus,
+  listWorkflowModels,
+  startWorkflow,
+  listWorkflowInstances,
+  terminateWorkflow,
+  retryWorkflow,
+  getWorkflowPayload,
+  listInboxItems,
+  completeWorkItem,
+  delegateWorkItem,
+  listTags,
+  createTag,
+  moveTag,
+  mergeTag,
+  addTags,
+  removeTags,
+  tagIdToPath,
+  taggableNodePath,
+  listPackages,
+  createPackage,
+  buildPackage,
+  installPackage,
+  getPackageCoverage,
+  downloadPackage,
+  uploadPackage,
+  type RenditionContent,
+  type NodeSnapshot,
+  replicateTree,
+  getReplicationStatus,
+  getReplicationQueues,
 } from './aem-client.js';
 
-function textResult(data: unknown) {
+const environmentParam = z
+  .string()
+  .optional()
+  .describe('Name of the AEM environment profile to use (see aem_list_environments). Defaults to the default profile.');
+
+// Response shaping for tools that return raw JCR node trees; see shaping.ts
+const shapingParams = {
+  depth: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Levels of child nodes to return, e.g. 1 for the node and its children. Defaults to all.'),
+  include_properties: z
+    .array(z.string())
+    .optional()
+    .describe('Only return these properties; wildcards allowed, e.g. ["jcr:title", "cq:*"]'),
+  exclude_properties: z
+    .array(z.string())
+    .optional()
+    .describe('Leave out these properties and child nodes; wildcards allowed'),
+  include_system_properties: z
+    .boolean()
+    .optional()
+    .describe('Keep repository bookkeeping such as jcr:uuid, cq:lastModifiedBy and rep:policy, which is stripped by default'),
+  max_chars: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Size budget of the response in characters. Defaults to AEM_MAX_RESPONSE_CHARS (80000).'),
+};
+
+const maxCharsParam = shapingParams.max_chars;
+
+interface ShapingArgs {
+  depth?: number;
+  include_properties?: string[];
+  exclude_properties?: string[];
+  include_system_properties?: boolean;
+  max_chars?: number;
+}
+
+// Shapes a JCR node tree and returns it within the size budget, suggesting child
+// paths to read when it does not fit
+function shapedResult(path: string, data: unknown, args: ShapingArgs) {
+  const shaped = shapeNode(data, {
+    depth: args.depth,
+    include: args.include_properties,
+    exclude: args.exclude_properties,
+    keepSystemProperties: args.include_system_properties,
+  }, path);
+  const children = childPaths(path, shaped);
+  const hint = 'Lower depth, filter with include_properties / exclude_properties' +
+    (children.length > 0 ? `, or read a child path such as ${children.slice(0, 5).join(', ')}` : '') + '.';
+  return textResult(shaped, args.max_chars, hint);
+}
+
+const PAGING_HINT = 'Use limit and offset to page through the results.';
+
+// QueryBuilder predicates accepted by aem_query; groups nest one level deep
+const predicateSchema = {
+  fulltext: z
+    .string()
+    .optional()
+    .describe('Full-text search term'),
+  property: z
+    .array(z.object({
+      property: z.string().describe('Relative property path, e.g. jcr:content/jcr:title'),
+      value: z.union([z.string(), z.array(z.string())]).optional().describe('Value(s) to match; multiple values are OR-ed'),
+      operation: z
+        .enum(['equals', 'unequals', 'like', 'not', 'exists'])
+        .optional()
+        .describe('Comparison; "like" uses % wildcards, "not" matches nodes without the property, "exists" with value "false" likewise'),
+      and: z.boolean().optional().describe('Require all values to match instead of any'),
+    }))
+    .optional()
+    .describe('Property predicates'),
+  daterange: z
+    .array(z.object({
+      property: z.string().describe('Date property, e.g. jcr:content/cq:lastModified'),
+      lowerBound: z.string().optional().describe('ISO date, e.g. 2024-01-01'),
+      lowerOperation: z.enum(['>', '>=']).optional(),
+      upperBound: z.string().optional().describe('ISO date, e.g. 2024-12-31'),
+      upperOperation: z.enum(['<', '<=']).optional(),
+    }))
+    .optional()
+    .describe('Absolute date range predicates'),
+  relativedaterange: z
+    .array(z.object({
+      property: z.string().describe('Date property, e.g. jcr:content/cq:lastModified'),
+      lowerBound: z.string().optional().describe('Relative duration, e.g. -7d for "in the last 7 days"'),
+      upperBound: z.string().optional().describe('Relative duration, e.g. 0'),
+    }))
+    .optional()
+    .describe('Date range predicates relative to now'),
+  tagid: z
+    .array(z.object({
+      tagId: z.string().describe('Tag ID, e.g. mysite:topics/sustainability'),
+      property: z.string().optional().describe('Tag property. Defaults to jcr:content/cq:tags.'),
+    }))
+    .optional()
+    .describe('Tag predicates'),
+  nodename: z
+    .array(z.string())
+    .optional()
+    .describe('Node name patterns, * and ? wildcards allowed'),
+};
+
+const predicateGroupSchema = z.object({
+  or: z.boolean().optional().describe('Match any predicate in this group instead of all'),
+  not: z.boolean().optional().describe('Negate the group'),
+  ...predicateSchema,
+});
+
+// Responses are cut at a size budget with a hint on how to narrow the request
+function textResult(data: unknown, maxChars = maxResponseChars(), hint?: string) {
+  const text = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
   return {
     content: [
       {
         type: 'text' as const,
-        text: typeof data === 'string' ? data : JSON.stringify(data, null, 2),
+        text: applyBudget(text, maxChars, hint),
       },
     ],
   };
 }
 
+// Tools that declare an output schema return their model as structured content,
+// with the text block as a fallback for clients that only read text
+function structuredResult(data: Record<string, unknown>, text = textResult(data)) {
+  return { ...text, structuredContent: data };
+}
+
 function errorResult(message: string) {
   return {
     isError: true,
@@ -41,16 +261,170 @@ function errorResult(message: string) {
   };
 }
 
+const confirmTokenParam = z
+  .string()
+  .optional()
+  .describe('Confirmation token returned by the preview of this exact call. Required for destructive operations on environments that need confirmation.');
+
+// Journals a mutating tool call; see journal.ts
+interface JournalSpec<A> {
+  // Nodes snapshotted before and after the call; undo restores their before state
+  snapshots?: (args: A) => string[] | Promise<string[]>;
+  // Reverse operation for calls that snapshots cannot undo, e.g. moves and replication
+  undo?: (args: A) => UndoAction | undefined | Promise<UndoAction | undefined>;
+}
+
+interface ToolGuard<A> {
+  operation: GuardedOperation;
+  // Repository paths the call writes to, checked against the environment's path
+  // rules. Tools without paths cannot run when the operation has an allowlist.
+  paths?: (args: A) => string[] | Promise<string[]>;
+  // Calls that do not change anything, e.g. dry runs, are not guarded
+  skip?: (args: A) => boolean;
+  // Destructive calls return a preview and a confirmation token first when the
+  // environment requires confirmation (production profiles by default)
+  destructive?: boolean | ((args: A) => boolean);
+  preview?: (args: A) => Promise<unknown>;
+  // Every guarded call is journaled; false for handlers that journal themselves
+  journal?: JournalSpec<A> | false;
+}
+
+// Wraps a mutating tool handler with the read-only, path rule and confirmation
+// checks, and records successful calls in the mutation journal. Destructive
+// tools that declare an output schema wrap it in orConfirmation, since they may
+// return a confirmation instead of their result.
+function guarded<A extends { environment?: string; confirm_token?: string }, R>(
+  tool: string,
+  guard: ToolGuard<A>,
+  handler: (args: A) => Promise<R>
+) {
+  return async (args: A) => {
+    if (guard.skip?.(args)) return handler(args);
+
+    let env: AemEnvironment;
+    let before: NodeSnapshot[] = [];
+    let undo: UndoAction | undefined;
+    const journal = journalEnabled() && guard.journal !== false;
+    try {
+      env = getEnvironment(args.environment);
+      const paths = (await guard.paths?.(args)) ?? [];
+      assertOperationAllowed(env, guard.operation, paths);
+
+      const destructive = typeof guard.destructive === 'function' ? guard.destructive(args) : !!guard.destructive;
+      if (destructive && env.confirmDestructive) {
+        const fingerprintArgs = args as Record<string, unknown>;
+        if (!args.confirm_token) {
+          const { token, expiresAt } = issueConfirmation(env, tool, fingerprintArgs);
+          const confirmation: Confirmation = {
+            confirmationRequired: true,
+            tool,
+            environment: env.name,
+            operation: guard.operation,
+            paths,
+            preview: guard.preview ? await guard.preview(args) : undefined,
+            confirmToken: token,
+            expiresAt,
+            message: `Nothing was changed. Call ${tool} again with the same arguments and confirm_token to proceed.`,
+          };
+          return structuredResult(confirmation);
+        }
+        redeemConfirmation(env, tool, fingerprintArgs, args.confirm_token);
+      }
+
+      if (journal && guard.journal) {
+        const spec = guard.journal;
+        const snapshotPaths = (await spec.snapshots?.(args)) ?? [];
+        before = await captureSnapshots(snapshotPaths, env.name);
+        // A failure to work out the reverse operation, thrown or rejected, only
+        // makes the entry non-undoable
+        undo = await Promise.resolve().then(() => spec.undo?.(args)).catch(() => undefined);
+        if (!undo && snapshotPaths.length > 0) undo = { kind: 'restore' };
+        // Incomplete snapshots cannot be restored, so the entry is not undoable
+        if (undo?.kind === 'restore' && before.some((snapshot) => snapshot.truncated || snapshot.error)) undo = undefined;
+      }
+    } catch (err) {
+      return errorResult(String(err));
+    }
+
+    const result = await handler(args);
+    if (journal && !(result as { isError?: boolean }).isError) {
+      try {
+        await recordMutation(env, tool, args as Record<string, unknown>, before, undo);
+      } catch (err) {
+        // The mutation already happened; a journal failure must not turn it into an error
+        console.error(`Failed to write journal entry for ${tool}: ${err}`);
+      }
+    }
+    return result;
+  };
+}
+
+// Pages aem_create_language_copies writes, for path rules and journal snapshots
+async function copyTargetPaths(
+  sourcePath: string,
+  targetLanguages: string[],
+  languageRoot?: string,
+  environment?: string
+): Promise<string[]> {
+  return (await languageCopyTargets(sourcePath, targetLanguages, languageRoot, environment)).map((target) => target.path);
+}
+
+// Images come back as MCP image content, text as text, anything else (PDF, Office,
+// video) as an embedded resource blob
+function renditionResult(rendition: RenditionContent) {
+  const { data, ...info } = rendition;
+  const summary = {
+    type: 'text' as const,
+    text: JSON.stringify(info, null, 2),
+  };
+
+  if (rendition.mimeType.startsWith('image/') && rendition.mimeType !== 'image/svg+xml') {
+    return {
+      content: [summary, { type: 'image' as const, data: data.toString('base64'), mimeType: rendition.mimeType }],
+    };
+  }
+  if (rendition.mimeType.startsWith('text/') || /json|xml/.test(rendition.mimeType)) {
+    return {
+      content: [summary, { type: 'text' as const, text: data.toString('utf-8') }],
+    };
+  }
+  return {
+    content: [
+      summary,
+      {
+        type: 'resource' as const,
+        resource: { uri: rendition.url, mimeType: rendition.mimeType, blob: data.toString('base64') },
+      },
+    ],
+  };
+}
+
 export function registerTools(server: McpServer): void {
   // ─── Diagnostics ───────────────────────────────────────────────────────────
 
   server.tool(
     'aem_check_connection',
     'Diagnose the AEM connection: tests authentication, identifies the current user and their group memberships, and checks read access to /content and /content/dam. Run this first if you are getting 403 errors.',
+    {
+      environment: environmentParam,
+    },
+    async ({ environment }) => {
+      try {
+        const result = await checkConnection(environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_list_environments',
+    'List the configured AEM environment profiles (e.g. local, dev, stage, prod author/publish), which one is the default, and whether each is reachable with its credentials.',
     {},
     async () => {
       try {
-        const result = await checkConnection();
+        const result = await listEnvironments();
         return textResult(result);
       } catch (err) {
         return errorResult(String(err));
@@ -58,23 +432,127 @@ export function registerTools(server: McpServer): void {
     }
   );
 
-  // ─── Pages ─────────────────────────────────────────────────────────────────
+  // ─── Journal ───────────────────────────────────────────────────────────────
 
   server.tool(
-    'aem_get_page',
-    'Get AEM page content and properties at the specified JCR path. Returns the full node tree.',
+    'aem_query_journal',
+    'Query the local journal of mutations made through this server: tool, arguments, AEM user, timestamp and the affected paths, newest first. Use include_snapshots to see the before/after JSON of each node.',
     {
-      page_path: z
+      tool: z
         .string()
-        .describe('JCR path of the page, e.g. /content/mysite/en/home'),
+        .optional()
+        .describe('Only entries for this tool, e.g. aem_update_page'),
+      path: z
+        .string()
+        .optional()
+        .describe('Only entries touching this path or its descendants'),
+      since: z
+        .string()
+        .optional()
+        .describe('Only entries at or after this ISO timestamp, e.g. 2024-05-01T09:00:00Z'),
+      limit: z
+        .number()
+        .optional()
+        .describe('Maximum number of entries (default 20)'),
+      include_snapshots: z
+        .boolean()
+        .optional()
+        .describe('Include the before/after node snapshots. Defaults to false.'),
+      environment: z
+        .string()
+        .optional()
+        .describe('Only entries for this environment profile. Defaults to all profiles.'),
+    },
+    async ({ tool, path, since, limit, include_snapshots, environment }) => {
+      try {
+        const result = await queryJournal({
+          tool,
+          path,
+          since,
+          limit,
+          includeSnapshots: include_snapshots,
+          environment,
+        });
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_undo',
+    'Undo the last N journaled mutations on an environment, newest first, by restoring node snapshots or reversing moves and replication. Stops at the first mutation that cannot be undone. Use dry_run=true first to see what would be reverted.',
+    {
+      count: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe('Number of mutations to undo (default 1)'),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe('If true, only list the mutations that would be undone'),
+      force: z
+        .boolean()
+        .optional()
+        .describe('Undo even if a node has changed since the mutation, overwriting the newer changes'),
+      confirm_token: confirmTokenParam,
+      environment: environmentParam,
     },
-    async ({ page_path }) => {
+    guarded('aem_undo', {
+      operation: 'write',
+      paths: ({ count, environment }) => undoPaths(count, environment),
+      skip: ({ dry_run }) => !!dry_run,
+      destructive: true,
+      preview: ({ count, environment }) => undoMutations(count, { dryRun: true }, environment),
+      journal: false,
+    }, async ({ count, dry_run, force, environment }) => {
       try {
-        const result = await getPage(page_path);
+        const result = await undoMutations(count, { dryRun: dry_run, force }, environment);
         return textResult(result);
       } catch (err) {
         return errorResult(String(err));
       }
+    })
+  );
+
+  // ─── Pages ─────────────────────────────────────────────────────────────────
+
+  server.registerTool(
+    'aem_get_page',
+    {
+      description: 'Get AEM page content and properties at the specified JCR path. Returns the node tree without repository bookkeeping properties; use depth, property filters or summary=true to keep large pages small.',
+      inputSchema: {
+        page_path: z
+          .string()
+          .describe('JCR path of the page, e.g. /content/mysite/en/home'),
+        summary: z
+          .boolean()
+          .optional()
+          .describe(`Only return the page properties, the component tree with its text, and the child page paths. Reads components up to ${SUMMARY_DEPTH - 1} levels below jcr:content and ignores the other shaping options except max_chars.`),
+        ...shapingParams,
+        environment: environmentParam,
+      },
+      outputSchema: pageSchema.shape,
+    },
+    async ({ page_path, summary, environment, ...shaping }) => {
+      try {
+        if (summary) {
+          const page = await getPage(page_path, SUMMARY_DEPTH, environment);
+          const pageSummary = summarizePage(page_path, page);
+          return structuredResult(
+            { ...toPage(page_path, page), components: pageSummary.components },
+            textResult(pageSummary, shaping.max_chars)
+          );
+        }
+        // The page properties live on jcr:content, one level down
+        const result = await getPage(page_path, shaping.depth === 0 ? 1 : shaping.depth, environment);
+        return structuredResult(toPage(page_path, result), shapedResult(page_path, result, shaping));
+      } catch (err) {
+        return errorResult(String(err));
+      }
     }
   );
 
@@ -85,11 +563,16 @@ export function registerTools(server: McpServer): void {
       parent_path: z
         .string()
         .describe('JCR path of the parent node, e.g. /content/mysite/en'),
+      include_properties: shapingParams.include_properties,
+      exclude_properties: shapingParams.exclude_properties,
+      include_system_properties: shapingParams.include_system_properties,
+      max_chars: maxCharsParam,
+      environment: environmentParam,
     },
-    async ({ parent_path }) => {
+    async ({ parent_path, environment, ...shaping }) => {
       try {
-        const result = await listPages(parent_path);
-        return textResult(result);
+        const result = await listPages(parent_path, environment);
+        return shapedResult(parent_path, result, shaping);
       } catch (err) {
         return errorResult(String(err));
       }
@@ -112,15 +595,22 @@ export function registerTools(server: McpServer): void {
       title: z
         .string()
         .describe('Human-readable title for the page'),
+      environment: environmentParam,
     },
-    async ({ parent_path, page_name, template, title }) => {
+    guarded('aem_create_page', {
+      operation: 'write',
+      paths: ({ parent_path }) => [parent_path],
+      journal: {
+        snapshots: ({ parent_path, page_name }) => [`${parent_path}/${page_name}`],
+      },
+    }, async ({ parent_path, page_name, template, title, environment }) => {
       try {
-        const result = await createPage(parent_path, page_name, template, title);
+        const result = await createPage(parent_path, page_name, template, title, environment);
         return textResult(result);
       } catch (err) {
         return errorResult(String(err));
       }
-    }
+    })
   );
 
   server.tool(
@@ -131,19 +621,30 @@ export function registerTools(server: McpServer): void {
         .string()
         .describe('JCR path of the page, e.g. /content/mysite/en/home'),
       properties: z
-        .record(z.string())
+        .record(z.union([z.string(), z.array(z.string())]))
         .describe(
-          'Key/value map of JCR properties to update, e.g. {"jcr:title": "New Title", "jcr:description": "..."}'
+          'Key/value map of JCR properties to update, e.g. {"jcr:title": "New Title", "jcr:description": "..."}. Arrays are stored as multi-value properties; use aem_add_tags to tag pages with validation.'
         ),
+      create_version: z
+        .boolean()
+        .optional()
+        .describe('Create a version of the page before writing. Defaults to the environment\'s AUTO_VERSION setting.'),
+      environment: environmentParam,
     },
-    async ({ page_path, properties }) => {
+    guarded('aem_update_page', {
+      operation: 'write',
+      paths: ({ page_path }) => [page_path],
+      journal: {
+        snapshots: ({ page_path }) => [`${page_path}/jcr:content`],
+      },
+    }, async ({ page_path, properties, create_version, environment }) => {
       try {
-        const result = await updatePageProperties(page_path, properties);
+        const result = await updatePageProperties(page_path, properties, create_version, environment);
         return textResult(result);
       } catch (err) {
         return errorResult(String(err));
       }
-    }
+    })
   );
 
   server.tool(
@@ -157,112 +658,269 @@ export function registerTools(server: McpServer): void {
         .boolean()
         .optional()
         .describe('If true, delete the page even if it has children. Defaults to false.'),
+      confirm_token: confirmTokenParam,
+      environment: environmentParam,
     },
-    async ({ page_path, force }) => {
+    guarded('aem_delete_page', {
+      operation: 'delete',
+      paths: ({ page_path }) => [page_path],
+      destructive: true,
+      preview: ({ page_path, environment }) => getPageReferences(page_path, environment),
+      journal: {
+        snapshots: ({ page_path }) => [page_path],
+      },
+    }, async ({ page_path, force, environment }) => {
       try {
-        const result = await deletePage(page_path, force ?? false);
+        const result = await deletePage(page_path, force ?? false, environment);
         return textResult(result);
       } catch (err) {
         return errorResult(String(err));
       }
-    }
+    })
   );
 
   server.tool(
-    'aem_replicate_page',
-    'Activate or deactivate (publish/unpublish) an AEM page to the publish instance.',
+    'aem_move_page',
+    'Move an AEM page (and its child pages) to a new parent. Optionally adjusts and republishes pages that link to it. Use dry_run=true first to preview the affected pages.',
     {
       page_path: z
         .string()
-        .describe('JCR path of the page to replicate, e.g. /content/mysite/en/home'),
-      action: z
-        .enum(['Activate', 'Deactivate'])
+        .describe('JCR path of the page to move, e.g. /content/mysite/en/old-section/page'),
+      dest_parent_path: z
+        .string()
+        .describe('JCR path of the new parent page, e.g. /content/mysite/en/new-section'),
+      dest_name: z
+        .string()
+        .optional()
+        .describe('New page name at the destination. Defaults to the current name.'),
+      title: z
+        .string()
+        .optional()
+        .describe('Optional new title for the page'),
+      before: z
+        .string()
+        .optional()
+        .describe('Name of a sibling page at the destination to order the page before'),
+      adjust_references: z
+        .boolean()
+        .optional()
+        .describe('Rewrite links in referencing pages to the new path. Defaults to false.'),
+      republish_references: z
+        .boolean()
+        .optional()
+        .describe('Republish referencing pages after adjusting them. Defaults to false.'),
+      dry_run: z
+        .boolean()
         .optional()
-        .describe('Replication action: Activate (publish) or Deactivate (unpublish). Defaults to Activate.'),
+        .describe('If true, only report the pages that would be moved and the pages referencing them'),
+      confirm_token: confirmTokenParam,
+      environment: environmentParam,
     },
-    async ({ page_path, action }) => {
+    guarded('aem_move_page', {
+      operation: 'write',
+      paths: ({ page_path, dest_parent_path }) => [page_path, dest_parent_path],
+      skip: ({ dry_run }) => !!dry_run,
+      // Republishing the referencing pages is confirmed like the replicate tools
+      destructive: ({ republish_references }) => !!republish_references,
+      preview: ({ page_path, dest_parent_path, dest_name, environment }) =>
+        movePage(page_path, dest_parent_path, { destName: dest_name, dryRun: true }, environment),
+      journal: {
+        undo: ({ page_path, dest_parent_path, dest_name }) => ({
+          kind: 'move',
+          type: 'page',
+          from: page_path,
+          to: `${dest_parent_path}/${dest_name ?? posix.basename(page_path)}`,
+        }),
+      },
+    }, async ({ page_path, dest_parent_path, dest_name, title, before, adjust_references, republish_references, dry_run, environment }) => {
       try {
-        const result = await replicatePage(page_path, action ?? 'Activate');
+        const result = await movePage(page_path, dest_parent_path, {
+          destName: dest_name,
+          title,
+          before,
+          adjustReferences: adjust_references,
+          republishReferences: republish_references,
+          dryRun: dry_run,
+        }, environment);
         return textResult(result);
       } catch (err) {
         return errorResult(String(err));
       }
-    }
+    })
   );
 
-  // ─── Search ────────────────────────────────────────────────────────────────
-
   server.tool(
-    'aem_search',
-    'Search AEM content using the QueryBuilder API. Supports full-text search, path filtering, and type filtering.',
+    'aem_rename_page',
+    'Rename an AEM page in place (changes its name and URL). Optionally adjusts and republishes pages that link to it. Use dry_run=true first to preview the affected pages.',
     {
-      fulltext: z
+      page_path: z
         .string()
-        .optional()
-        .describe('Full-text search term to find in content'),
-      path: z
+        .describe('JCR path of the page to rename, e.g. /content/mysite/en/old-name'),
+      new_name: z
         .string()
-        .optional()
-        .describe('Restrict search to this JCR path, e.g. /content/mysite'),
-      type: z
+        .describe('New URL-safe page name, e.g. new-name'),
+      title: z
         .string()
         .optional()
-        .describe('JCR node type filter, e.g. cq:Page, dam:Asset, nt:unstructured'),
-      limit: z
-        .number()
+        .describe('Optional new title for the page'),
+      adjust_references: z
+        .boolean()
         .optional()
-        .describe('Maximum number of results to return (default 20)'),
-      offset: z
-        .number()
+        .describe('Rewrite links in referencing pages to the new path. Defaults to false.'),
+      republish_references: z
+        .boolean()
         .optional()
-        .describe('Number of results to skip for pagination (default 0)'),
-      orderby: z
-        .string()
+        .describe('Republish referencing pages after adjusting them. Defaults to false.'),
+      dry_run: z
+        .boolean()
         .optional()
-        .describe('Property to sort results by, e.g. @jcr:created'),
+        .describe('If true, only report the pages that would be renamed and the pages referencing them'),
+      confirm_token: confirmTokenParam,
+      environment: environmentParam,
     },
-    async ({ fulltext, path, type, limit, offset, orderby }) => {
+    guarded('aem_rename_page', {
+      operation: 'write',
+      paths: ({ page_path }) => [page_path],
+      skip: ({ dry_run }) => !!dry_run,
+      destructive: ({ republish_references }) => !!republish_references,
+      preview: ({ page_path, new_name, environment }) => renamePage(page_path, new_name, { dryRun: true }, environment),
+      journal: {
+        undo: ({ page_path, new_name }) => ({
+          kind: 'move',
+          type: 'page',
+          from: page_path,
+          to: `${posix.dirname(page_path)}/${new_name}`,
+        }),
+      },
+    }, async ({ page_path, new_name, title, adjust_references, republish_references, dry_run, environment }) => {
       try {
-        const result = await searchContent({ fulltext, path, type, limit, offset, orderby });
+        const result = await renamePage(page_path, new_name, {
+          title,
+          adjustReferences: adjust_references,
+          republishReferences: republish_references,
+          dryRun: dry_run,
+        }, environment);
         return textResult(result);
       } catch (err) {
         return errorResult(String(err));
       }
-    }
+    })
   );
 
-  // ─── Assets ────────────────────────────────────────────────────────────────
-
   server.tool(
-    'aem_get_asset',
-    'Get metadata and properties of a DAM asset at the specified path.',
+    'aem_copy_page',
+    'Copy an AEM page to a new parent, either with all child pages (deep) or the page alone (shallow). Use dry_run=true first to preview the pages that would be copied.',
     {
-      asset_path: z
+      page_path: z
         .string()
-        .describe('JCR path of the asset, e.g. /content/dam/mysite/images/photo.jpg'),
+        .describe('JCR path of the page to copy, e.g. /content/mysite/en/template-page'),
+      dest_parent_path: z
+        .string()
+        .describe('JCR path of the parent page for the copy, e.g. /content/mysite/en/campaigns'),
+      dest_name: z
+        .string()
+        .optional()
+        .describe('Page name for the copy. Defaults to the source page name.'),
+      title: z
+        .string()
+        .optional()
+        .describe('Optional title for the copy'),
+      before: z
+        .string()
+        .optional()
+        .describe('Name of a sibling page at the destination to order the copy before'),
+      shallow: z
+        .boolean()
+        .optional()
+        .describe('If true, copy only the page itself without its child pages. Defaults to false.'),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe('If true, only report the pages that would be copied'),
+      environment: environmentParam,
     },
-    async ({ asset_path }) => {
+    guarded('aem_copy_page', {
+      operation: 'write',
+      paths: ({ dest_parent_path }) => [dest_parent_path],
+      skip: ({ dry_run }) => !!dry_run,
+      journal: {
+        snapshots: ({ page_path, dest_parent_path, dest_name }) => [`${dest_parent_path}/${dest_name ?? posix.basename(page_path)}`],
+      },
+    }, async ({ page_path, dest_parent_path, dest_name, title, before, shallow, dry_run, environment }) => {
       try {
-        const result = await getAsset(asset_path);
+        const result = await copyPage(page_path, dest_parent_path, {
+          destName: dest_name,
+          title,
+          before,
+          shallow,
+          dryRun: dry_run,
+        }, environment);
         return textResult(result);
       } catch (err) {
         return errorResult(String(err));
       }
-    }
+    })
+  );
+
+  server.registerTool(
+    'aem_replicate_page',
+    {
+      description: 'Activate or deactivate (publish/unpublish) an AEM page to the publish instance.',
+      inputSchema: {
+        page_path: z
+          .string()
+          .describe('JCR path of the page to replicate, e.g. /content/mysite/en/home'),
+        action: z
+          .enum(['Activate', 'Deactivate'])
+          .optional()
+          .describe('Replication action: Activate (publish) or Deactivate (unpublish). Defaults to Activate.'),
+        confirm_token: confirmTokenParam,
+        environment: environmentParam,
+      },
+      outputSchema: orConfirmation(replicationResultSchema).shape,
+    },
+    guarded('aem_replicate_page', {
+      operation: 'publish',
+      paths: ({ page_path }) => [page_path],
+      destructive: ({ action }) => action === 'Deactivate',
+      preview: ({ page_path, environment }) => getReplicationStatus(page_path, environment),
+      journal: {
+        // Re-activating a published page cannot bring back the previously published version
+        undo: async ({ page_path, action, environment }) => {
+          const status = await getReplicationStatus(page_path, environment);
+          const wasActive = status.lastReplicationAction === 'Activate';
+          if ((action ?? 'Activate') === 'Activate') {
+            return wasActive ? undefined : { kind: 'replicate', path: page_path, action: 'Deactivate' };
+          }
+          return wasActive ? { kind: 'replicate', path: page_path, action: 'Activate' } : undefined;
+        },
+      },
+    }, async ({ page_path, action, environment }) => {
+      try {
+        const result = await replicatePage(page_path, action ?? 'Activate', environment);
+        return structuredResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
   );
 
+  // ─── Components ────────────────────────────────────────────────────────────
+
   server.tool(
-    'aem_list_assets',
-    'List all DAM assets inside a given folder path.',
+    'aem_get_component_tree',
+    'List the components on an AEM page with their JCR paths, sling:resourceType and editable properties. Use this to find the path of a component before editing it.',
     {
-      folder_path: z
+      page_path: z
         .string()
-        .describe('JCR path of the DAM folder, e.g. /content/dam/mysite/images'),
+        .describe('JCR path of the page, e.g. /content/mysite/en/home'),
+      max_chars: maxCharsParam,
+      environment: environmentParam,
     },
-    async ({ folder_path }) => {
+    async ({ page_path, max_chars, environment }) => {
       try {
-        const result = await listAssets(folder_path);
-        return textResult(result);
+        const result = await getComponentTree(page_path, environment);
+        return textResult(result, max_chars, 'Read a single component with aem_get_page on its path and a small depth.');
       } catch (err) {
         return errorResult(String(err));
       }
@@ -270,101 +928,1773 @@ export function registerTools(server: McpServer): void {
   );
 
   server.tool(
-    'aem_get_asset_renditions',
-    'Get all available renditions (sizes/formats) for a DAM asset.',
+    'aem_add_component',
+    'Add a component to a paragraph system / responsive grid container on an AEM page.',
     {
-      asset_path: z
+      container_path: z
         .string()
-        .describe('JCR path of the asset, e.g. /content/dam/mysite/images/photo.jpg'),
+        .describe('JCR path of the container, e.g. /content/mysite/en/home/jcr:content/root/container'),
+      resource_type: z
+        .string()
+        .describe('sling:resourceType of the component, e.g. mysite/components/text'),
+      properties: z
+        .record(z.union([z.string(), z.array(z.string())]))
+        .optional()
+        .describe('Initial component properties, e.g. {"text": "<p>Hello</p>", "textIsRich": "true"}'),
+      name: z
+        .string()
+        .optional()
+        .describe('Node name for the component. Defaults to <component>_<timestamp> like the page editor.'),
+      position: z
+        .enum(['first', 'last', 'before', 'after'])
+        .optional()
+        .describe('Where to insert the component in the container. Defaults to last.'),
+      sibling: z
+        .string()
+        .optional()
+        .describe('Node name of the sibling component, required when position is before or after'),
+      environment: environmentParam,
     },
-    async ({ asset_path }) => {
+    guarded('aem_add_component', {
+      operation: 'write',
+      paths: ({ container_path }) => [container_path],
+      journal: {
+        snapshots: ({ container_path }) => [container_path],
+      },
+    }, async ({ container_path, resource_type, properties, name, position, sibling, environment }) => {
       try {
-        const result = await getAssetRenditions(asset_path);
+        const result = await addComponent(
+          container_path,
+          resource_type,
+          properties ?? {},
+          name,
+          position ?? 'last',
+          sibling,
+          environment
+        );
         return textResult(result);
       } catch (err) {
         return errorResult(String(err));
       }
-    }
+    })
   );
 
-  // ─── Content Fragments ─────────────────────────────────────────────────────
-
   server.tool(
-    'aem_get_content_fragment',
-    'Get the content and metadata of an AEM Content Fragment at the specified path.',
+    'aem_update_component',
+    'Update properties of a component on an AEM page.',
     {
-      fragment_path: z
+      component_path: z
         .string()
-        .describe('JCR path of the content fragment, e.g. /content/dam/mysite/fragments/article-1'),
+        .describe('JCR path of the component, e.g. /content/mysite/en/home/jcr:content/root/container/text'),
+      properties: z
+        .record(z.union([z.string(), z.array(z.string())]))
+        .describe('Key/value map of properties to update. Arrays are stored as multi-value properties.'),
+      environment: environmentParam,
     },
-    async ({ fragment_path }) => {
+    guarded('aem_update_component', {
+      operation: 'write',
+      paths: ({ component_path }) => [component_path],
+      journal: {
+        snapshots: ({ component_path }) => [component_path],
+      },
+    }, async ({ component_path, properties, environment }) => {
       try {
-        const result = await getContentFragment(fragment_path);
+        const result = await updateComponent(component_path, properties, environment);
         return textResult(result);
       } catch (err) {
         return errorResult(String(err));
       }
-    }
+    })
   );
 
   server.tool(
-    'aem_list_content_fragments',
-    'List Content Fragments in a DAM folder, optionally filtered by Content Fragment Model.',
+    'aem_move_component',
+    'Reorder a component within its container: move it first, last, or before/after a sibling component.',
     {
-      folder_path: z
+      component_path: z
         .string()
-        .describe('JCR path of the DAM folder to search in, e.g. /content/dam/mysite/fragments'),
-      model_path: z
+        .describe('JCR path of the component, e.g. /content/mysite/en/home/jcr:content/root/container/text'),
+      position: z
+        .enum(['first', 'last', 'before', 'after'])
+        .describe('New position of the component within its container'),
+      sibling: z
         .string()
         .optional()
-        .describe(
-          'Optional path to the Content Fragment Model to filter by, e.g. /conf/mysite/settings/dam/cfm/models/article'
-        ),
+        .describe('Node name of the sibling component, required when position is before or after'),
+      environment: environmentParam,
     },
-    async ({ folder_path, model_path }) => {
+    guarded('aem_move_component', {
+      operation: 'write',
+      paths: ({ component_path }) => [component_path],
+      journal: {
+        // The move only changes the order of the container's children
+        snapshots: ({ component_path }) => [posix.dirname(component_path)],
+      },
+    }, async ({ component_path, position, sibling, environment }) => {
       try {
-        const result = await listContentFragments(folder_path, model_path);
+        const result = await moveComponent(component_path, position, sibling, environment);
         return textResult(result);
       } catch (err) {
         return errorResult(String(err));
       }
-    }
+    })
   );
 
   server.tool(
-    'aem_create_content_fragment',
-    'Create a new Content Fragment in AEM DAM using a specified Content Fragment Model.',
+    'aem_delete_component',
+    'Delete a component from an AEM page.',
     {
-      parent_path: z
-        .string()
-        .describe('JCR path of the parent DAM folder, e.g. /content/dam/mysite/fragments'),
-      name: z
-        .string()
-        .describe('URL-safe name for the new fragment, e.g. my-article'),
-      model_path: z
-        .string()
-        .describe('Path to the Content Fragment Model, e.g. /conf/mysite/settings/dam/cfm/models/article'),
-      title: z
-        .string()
-        .describe('Title of the content fragment'),
-      description: z
+      component_path: z
         .string()
-        .optional()
-        .describe('Optional description of the content fragment'),
+        .describe('JCR path of the component, e.g. /content/mysite/en/home/jcr:content/root/container/text'),
+      confirm_token: confirmTokenParam,
+      environment: environmentParam,
     },
-    async ({ parent_path, name, model_path, title, description }) => {
+    guarded('aem_delete_component', {
+      operation: 'delete',
+      paths: ({ component_path }) => [component_path],
+      destructive: true,
+      journal: {
+        snapshots: ({ component_path }) => [component_path],
+      },
+    }, async ({ component_path, environment }) => {
       try {
-        const result = await createContentFragment(parent_path, name, model_path, title, description);
+        const result = await deleteComponent(component_path, environment);
         return textResult(result);
       } catch (err) {
         return errorResult(String(err));
       }
+    })
+  );
+
+  // ─── Replication ───────────────────────────────────────────────────────────
+
+  server.registerTool(
+    'aem_replicate_tree',
+    {
+      description: 'Activate or deactivate a page and its subtree, optionally only pages modified since their last replication or only pages that are already activated. Reports success or failure per path. Use dry_run=true to preview the matched pages.',
+      inputSchema: {
+        root_path: z
+          .string()
+          .describe('JCR path of the root page, e.g. /content/mysite/en'),
+        action: z
+          .enum(['Activate', 'Deactivate'])
+          .optional()
+          .describe('Replication action. Defaults to Activate.'),
+        include_children: z
+          .boolean()
+          .optional()
+          .describe('Include all descendant pages. Defaults to true.'),
+        only_modified: z
+          .boolean()
+          .optional()
+          .describe('Only replicate pages modified since their last replication or never replicated'),
+        only_activated: z
+          .boolean()
+          .optional()
+          .describe('Only replicate pages whose last replication action was Activate'),
+        dry_run: z
+          .boolean()
+          .optional()
+          .describe('If true, only list the pages that match the filters'),
+        confirm_token: confirmTokenParam,
+        environment: environmentParam,
+      },
+      outputSchema: orConfirmation(treeReplicationResultSchema).shape,
+    },
+    guarded('aem_replicate_tree', {
+      operation: 'publish',
+      paths: ({ root_path }) => [root_path],
+      skip: ({ dry_run }) => !!dry_run,
+      destructive: ({ action }) => action === 'Deactivate',
+      preview: ({ root_path, action, include_children, only_modified, only_activated, environment }) => replicateTree(root_path, {
+          action,
+          includeChildren: include_children,
+          onlyModified: only_modified,
+          onlyActivated: only_activated,
+          dryRun: true,
+        }, environment),
+    }, async ({ root_path, action, include_children, only_modified, only_activated, dry_run, environment }) => {
+      try {
+        const result = await replicateTree(root_path, {
+          action,
+          includeChildren: include_children,
+          onlyModified: only_modified,
+          onlyActivated: only_activated,
+          dryRun: dry_run,
+        }, environment);
+        return structuredResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.registerTool(
+    'aem_get_replication_status',
+    {
+      description: 'Get the replication status of a page or asset: when it was last replicated, by whom, the last action, and whether it was modified since.',
+      inputSchema: {
+        path: z
+          .string()
+          .describe('JCR path of the page or asset, e.g. /content/mysite/en/home'),
+        environment: environmentParam,
+      },
+      outputSchema: replicationStatusSchema.shape,
+    },
+    async ({ path, environment }) => {
+      try {
+        const result = await getReplicationStatus(path, environment);
+        return structuredResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
     }
   );
 
   server.tool(
-    'aem_update_content_fragment',
-    'Update the properties or field values of an existing AEM Content Fragment.',
+    'aem_get_replication_queues',
+    'Inspect replication (AEM 6.5) or content distribution (AEM as a Cloud Service) agent queues, reporting blocked queues and items that have been retried.',
+    {
+      agent: z
+        .string()
+        .optional()
+        .describe('Only inspect this agent, e.g. publish. Defaults to all agents.'),
+      environment: environmentParam,
+    },
+    async ({ agent, environment }) => {
+      try {
+        const result = await getReplicationQueues(agent, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  // ─── Versions ──────────────────────────────────────────────────────────────
+
+  server.tool(
+    'aem_create_version',
+    'Create a labeled version of a page or content fragment, e.g. as a safety net before making changes.',
+    {
+      path: z
+        .string()
+        .describe('JCR path of the page or content fragment, e.g. /content/mysite/en/home'),
+      label: z
+        .string()
+        .optional()
+        .describe('Version label, e.g. "Before spring campaign edits"'),
+      comment: z
+        .string()
+        .optional()
+        .describe('Optional version comment'),
+      environment: environmentParam,
+    },
+    guarded('aem_create_version', {
+      operation: 'write',
+      paths: ({ path }) => [path],
+    }, async ({ path, label, comment, environment }) => {
+      try {
+        const result = await createVersion(path, label, comment, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_list_versions',
+    'List the version history of a page or content fragment: version id, name, label, date and author.',
+    {
+      path: z
+        .string()
+        .describe('JCR path of the page or content fragment, e.g. /content/mysite/en/home'),
+      environment: environmentParam,
+    },
+    async ({ path, environment }) => {
+      try {
+        const result = await listVersions(path, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_get_version',
+    'Show the content of a page or content fragment as it was in a given version.',
+    {
+      path: z
+        .string()
+        .describe('JCR path of the page or content fragment, e.g. /content/mysite/en/home'),
+      version_name: z
+        .string()
+        .describe('Version name from aem_list_versions, e.g. 1.2'),
+      summary: z
+        .boolean()
+        .optional()
+        .describe('Only return the page properties, the component tree with its text, and the child page paths'),
+      ...shapingParams,
+      environment: environmentParam,
+    },
+    async ({ path, version_name, summary, environment, ...shaping }) => {
+      try {
+        const result = await getVersionContent(path, version_name, environment);
+        if (summary) return textResult(summarizePage(path, result as Record<string, unknown>), shaping.max_chars);
+        return shapedResult(path, result, shaping);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_restore_version',
+    'Restore a page to a previous version. The current state is replaced by the chosen version.',
+    {
+      page_path: z
+        .string()
+        .describe('JCR path of the page, e.g. /content/mysite/en/home'),
+      version_id: z
+        .string()
+        .describe('Version id from aem_list_versions'),
+      confirm_token: confirmTokenParam,
+      environment: environmentParam,
+    },
+    guarded('aem_restore_version', {
+      operation: 'write',
+      paths: ({ page_path }) => [page_path],
+      destructive: true,
+      journal: {
+        snapshots: ({ page_path }) => [`${page_path}/jcr:content`],
+      },
+    }, async ({ page_path, version_id, environment }) => {
+      try {
+        const result = await restoreVersion(page_path, version_id, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  // ─── Multi Site Manager ────────────────────────────────────────────────────
+
+  server.tool(
+    'aem_get_live_relationships',
+    'Show a page\'s Multi Site Manager relationships: its blueprint source and rollout configs if it is a live copy, the live copies it rolls out to, whether it is suspended, and components with cancelled inheritance.',
+    {
+      page_path: z
+        .string()
+        .describe('JCR path of the page, e.g. /content/mysite/de/home'),
+      search_path: z
+        .string()
+        .optional()
+        .describe('Where to look for live copies of the page. Defaults to its site, e.g. /content/mysite; use /content to include other sites.'),
+      environment: environmentParam,
+    },
+    async ({ page_path, search_path, environment }) => {
+      try {
+        const result = await getLiveRelationships(page_path, search_path, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_rollout',
+    'Roll out a blueprint page (or its whole subtree) to selected live copies, or to all of its live copies.',
+    {
+      blueprint_path: z
+        .string()
+        .describe('JCR path of the blueprint page, e.g. /content/mysite/language-masters/en/home'),
+      target_paths: z
+        .array(z.string())
+        .optional()
+        .describe('Live copy page paths to roll out to. Defaults to every live copy of the page in its site (see aem_get_live_relationships).'),
+      deep: z
+        .boolean()
+        .optional()
+        .describe('Roll out the page and all its child pages. Defaults to false.'),
+      confirm_token: confirmTokenParam,
+      environment: environmentParam,
+    },
+    guarded('aem_rollout', {
+      operation: 'write',
+      // Without explicit targets the rollout reaches every live copy, so those are checked
+      paths: async ({ blueprint_path, target_paths, environment }) => [
+        blueprint_path,
+        ...(target_paths?.length ? target_paths : await liveCopyPaths(blueprint_path, environment)),
+      ],
+      destructive: true,
+      preview: ({ blueprint_path, environment }) => getLiveRelationships(blueprint_path, undefined, environment),
+    }, async ({ blueprint_path, target_paths, deep, environment }) => {
+      try {
+        const result = await rolloutPage(blueprint_path, target_paths, deep ?? false, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_set_inheritance',
+    'Suspend live copy sync on a page, cancel inheritance on a component (including its children), or resume inheritance on either.',
+    {
+      path: z
+        .string()
+        .describe('Live copy page path, or component path below jcr:content'),
+      action: z
+        .enum(['suspend', 'resume', 'cancel'])
+        .describe('suspend a page, cancel a component\'s inheritance, or resume inheritance'),
+      environment: environmentParam,
+    },
+    guarded('aem_set_inheritance', {
+      operation: 'write',
+      paths: ({ path }) => [path],
+      journal: {
+        snapshots: ({ path }) => [inheritanceNodePath(path)],
+      },
+    }, async ({ path, action, environment }) => {
+      try {
+        const result = await setInheritance(path, action, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  // ─── Language Copies & Translation ─────────────────────────────────────────
+
+  server.tool(
+    'aem_list_language_roots',
+    'List the language roots of a site (e.g. /content/mysite/en, /content/mysite/us/en, language-masters) with their locales.',
+    {
+      site_path: z
+        .string()
+        .describe('JCR path of the site root, e.g. /content/mysite'),
+      environment: environmentParam,
+    },
+    async ({ site_path, environment }) => {
+      try {
+        const result = await listLanguageRoots(site_path, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_find_missing_language_pages',
+    'Compare the language roots of a site and list, per locale, the pages that exist in other locales (or in a reference locale) but are missing in that locale.',
+    {
+      site_path: z
+        .string()
+        .describe('JCR path of the site root, e.g. /content/mysite'),
+      reference_locale: z
+        .string()
+        .optional()
+        .describe('Only compare against this locale, e.g. en. Defaults to the union of all locales.'),
+      environment: environmentParam,
+    },
+    async ({ site_path, reference_locale, environment }) => {
+      try {
+        const result = await findMissingLanguagePages(site_path, reference_locale, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_create_language_copies',
+    'Copy a page into other language roots at the same relative path, e.g. /content/mysite/en/about to /content/mysite/de/about. The parent page must exist in each target language.',
+    {
+      source_path: z
+        .string()
+        .describe('JCR path of the source page, e.g. /content/mysite/en/about'),
+      target_languages: z
+        .array(z.string())
+        .describe('Language root names to copy into, e.g. ["de", "fr"], or language root paths such as /content/mysite/ch/de'),
+      language_root: z
+        .string()
+        .optional()
+        .describe('Language root of the source page, e.g. /content/mysite/us/en. Found from the site\'s language roots when omitted.'),
+      deep: z
+        .boolean()
+        .optional()
+        .describe('Also copy the child pages. Defaults to false.'),
+      environment: environmentParam,
+    },
+    guarded('aem_create_language_copies', {
+      operation: 'write',
+      paths: ({ source_path, target_languages, language_root, environment }) => copyTargetPaths(source_path, target_languages, language_root, environment),
+      journal: {
+        snapshots: ({ source_path, target_languages, language_root, environment }) => copyTargetPaths(source_path, target_languages, language_root, environment),
+      },
+    }, async ({ source_path, target_languages, language_root, deep, environment }) => {
+      try {
+        const result = await createLanguageCopies(source_path, target_languages, deep ?? false, language_root, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_create_translation_project',
+    'Create a translation project for a set of pages and one target language, or add pages to an existing translation project.',
+    {
+      title: z
+        .string()
+        .describe('Project title, e.g. "Spring campaign – German"'),
+      pages: z
+        .array(z.string())
+        .describe('Source page paths to translate'),
+      source_language: z
+        .string()
+        .describe('Source language, e.g. en'),
+      target_language: z
+        .string()
+        .describe('Target language, e.g. de'),
+      translation_method: z
+        .enum(['MACHINE_TRANSLATION', 'HUMAN_TRANSLATION'])
+        .optional()
+        .describe('Translation method. Defaults to MACHINE_TRANSLATION.'),
+      translation_provider: z
+        .string()
+        .optional()
+        .describe('Translation provider name, e.g. microsoft'),
+      project_path: z
+        .string()
+        .optional()
+        .describe('Existing translation project to add the pages to'),
+      environment: environmentParam,
+    },
+    guarded('aem_create_translation_project', {
+      operation: 'write',
+      paths: ({ pages }) => pages,
+    }, async ({ title, pages, source_language, target_language, translation_method, translation_provider, project_path, environment }) => {
+      try {
+        const result = await createTranslationProject({
+          title,
+          pages,
+          sourceLanguage: source_language,
+          targetLanguage: target_language,
+          translationMethod: translation_method,
+          translationProvider: translation_provider,
+          projectPath: project_path,
+        }, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_get_translation_status',
+    'Report the translation status of pages per language root of a site (counts by cq:translationStatus).',
+    {
+      site_path: z
+        .string()
+        .describe('JCR path of the site root, e.g. /content/mysite'),
+      environment: environmentParam,
+    },
+    async ({ site_path, environment }) => {
+      try {
+        const result = await getTranslationStatus(site_path, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  // ─── Workflows ─────────────────────────────────────────────────────────────
+
+  server.tool(
+    'aem_list_workflow_models',
+    'List the workflow models available in AEM (e.g. request for activation, approval workflows).',
+    {
+      environment: environmentParam,
+    },
+    async ({ environment }) => {
+      try {
+        const result = await listWorkflowModels(environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_start_workflow',
+    'Start a workflow model on one or more payload paths. Reports the started instance or error per payload.',
+    {
+      model_id: z
+        .string()
+        .describe('Workflow model ID, e.g. /var/workflow/models/request_for_activation'),
+      payloads: z
+        .array(z.string())
+        .describe('JCR paths to run the workflow on, e.g. ["/content/mysite/en/home"]'),
+      title: z
+        .string()
+        .optional()
+        .describe('Optional workflow instance title'),
+      comment: z
+        .string()
+        .optional()
+        .describe('Optional start comment'),
+      metadata: z
+        .record(z.string())
+        .optional()
+        .describe('Additional metadata stored on the instance. Cannot override model, payload, payloadType, workflowTitle or startComment.'),
+      environment: environmentParam,
+    },
+    guarded('aem_start_workflow', {
+      operation: 'workflow',
+      paths: ({ payloads }) => payloads,
+    }, async ({ model_id, payloads, title, comment, metadata, environment }) => {
+      try {
+        const result = await startWorkflow(model_id, payloads, title, comment, metadata, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_list_workflow_instances',
+    'List workflow instances, optionally for a payload path and by state (RUNNING, SUSPENDED, COMPLETED, ABORTED, or FAILED for running instances with failed steps).',
+    {
+      payload: z
+        .string()
+        .optional()
+        .describe('Only instances for this payload path, e.g. /content/mysite/en/home'),
+      state: z
+        .enum(['RUNNING', 'SUSPENDED', 'COMPLETED', 'ABORTED', 'FAILED'])
+        .optional()
+        .describe('Only instances in this state'),
+      limit: z
+        .number()
+        .optional()
+        .describe('Maximum number of instances to return (default 50)'),
+      environment: environmentParam,
+    },
+    async ({ payload, state, limit, environment }) => {
+      try {
+        const result = await listWorkflowInstances(payload, state, limit, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_terminate_workflow',
+    'Terminate a running or suspended workflow instance.',
+    {
+      instance_id: z
+        .string()
+        .describe('Workflow instance path from aem_list_workflow_instances'),
+      confirm_token: confirmTokenParam,
+      environment: environmentParam,
+    },
+    guarded('aem_terminate_workflow', {
+      operation: 'workflow',
+      paths: async ({ instance_id, environment }) => [await getWorkflowPayload(instance_id, environment)],
+      destructive: true,
+    }, async ({ instance_id, environment }) => {
+      try {
+        const result = await terminateWorkflow(instance_id, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_retry_workflow',
+    'Retry a failed or stuck workflow instance by terminating it and starting the same model on the same payload.',
+    {
+      instance_id: z
+        .string()
+        .describe('Workflow instance path from aem_list_workflow_instances'),
+      confirm_token: confirmTokenParam,
+      environment: environmentParam,
+    },
+    guarded('aem_retry_workflow', {
+      operation: 'workflow',
+      paths: async ({ instance_id, environment }) => [await getWorkflowPayload(instance_id, environment)],
+      // Terminates the running instance before starting a new one
+      destructive: true,
+    }, async ({ instance_id, environment }) => {
+      try {
+        const result = await retryWorkflow(instance_id, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_list_inbox_items',
+    'List the work items in the current user\'s AEM inbox.',
+    {
+      environment: environmentParam,
+    },
+    async ({ environment }) => {
+      try {
+        const result = await listInboxItems(environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_complete_work_item',
+    'Complete an inbox work item, advancing the workflow with an optional comment. Steps with several routes need route_id.',
+    {
+      work_item: z
+        .string()
+        .describe('Work item path from aem_list_inbox_items'),
+      comment: z
+        .string()
+        .optional()
+        .describe('Optional comment'),
+      route_id: z
+        .string()
+        .optional()
+        .describe('Route to take when the step offers more than one'),
+      environment: environmentParam,
+    },
+    guarded('aem_complete_work_item', {
+      operation: 'workflow',
+      paths: async ({ work_item, environment }) => [await getWorkflowPayload(work_item, environment)],
+    }, async ({ work_item, comment, route_id, environment }) => {
+      try {
+        const result = await completeWorkItem(work_item, comment, route_id, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_delegate_work_item',
+    'Delegate an inbox work item to another user or group with an optional comment.',
+    {
+      work_item: z
+        .string()
+        .describe('Work item path from aem_list_inbox_items'),
+      delegatee: z
+        .string()
+        .describe('User or group ID to delegate to'),
+      comment: z
+        .string()
+        .optional()
+        .describe('Optional comment'),
+      environment: environmentParam,
+    },
+    guarded('aem_delegate_work_item', {
+      operation: 'workflow',
+      paths: async ({ work_item, environment }) => [await getWorkflowPayload(work_item, environment)],
+    }, async ({ work_item, delegatee, comment, environment }) => {
+      try {
+        const result = await delegateWorkItem(work_item, delegatee, comment, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  // ─── Tags ──────────────────────────────────────────────────────────────────
+
+  server.tool(
+    'aem_list_tags',
+    'Browse the AEM tag taxonomy under /content/cq:tags: namespaces, tag IDs, titles (optionally localized) and child tags.',
+    {
+      root_tag_id: z
+        .string()
+        .optional()
+        .describe('Tag ID to start from, e.g. mysite: or mysite:topics. Defaults to all namespaces.'),
+      depth: z
+        .number()
+        .optional()
+        .describe('Number of levels to include (default 2)'),
+      locale: z
+        .string()
+        .optional()
+        .describe('Locale for titles, e.g. de or fr_ca. Falls back to the default title.'),
+      environment: environmentParam,
+    },
+    async ({ root_tag_id, depth, locale, environment }) => {
+      try {
+        const result = await listTags(root_tag_id, depth, locale, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_create_tag',
+    'Create a tag (or a namespace, e.g. "mysite:") with a title, description and localized titles.',
+    {
+      tag_id: z
+        .string()
+        .describe('Tag ID to create, e.g. mysite:topics/sustainability'),
+      title: z
+        .string()
+        .describe('Default title of the tag'),
+      description: z
+        .string()
+        .optional()
+        .describe('Optional description'),
+      localized_titles: z
+        .record(z.string())
+        .optional()
+        .describe('Titles by locale, e.g. {"de": "Nachhaltigkeit", "fr": "Durabilité"}'),
+      environment: environmentParam,
+    },
+    guarded('aem_create_tag', {
+      operation: 'write',
+      paths: ({ tag_id }) => [tagIdToPath(tag_id)],
+      journal: {
+        snapshots: ({ tag_id }) => [tagIdToPath(tag_id)],
+      },
+    }, async ({ tag_id, title, description, localized_titles, environment }) => {
+      try {
+        const result = await createTag(tag_id, title, description, localized_titles, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_move_tag',
+    'Move or rename a tag. AEM updates content referencing the tag.',
+    {
+      tag_id: z
+        .string()
+        .describe('Tag ID to move, e.g. mysite:topics/green'),
+      dest_tag_id: z
+        .string()
+        .describe('New tag ID, e.g. mysite:topics/sustainability'),
+      environment: environmentParam,
+    },
+    guarded('aem_move_tag', {
+      operation: 'write',
+      paths: ({ tag_id, dest_tag_id }) => [tagIdToPath(tag_id), tagIdToPath(dest_tag_id)],
+    }, async ({ tag_id, dest_tag_id, environment }) => {
+      try {
+        const result = await moveTag(tag_id, dest_tag_id, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_merge_tag',
+    'Merge a tag into another: content tagged with the source tag is retagged with the destination, and the source tag is removed.',
+    {
+      tag_id: z
+        .string()
+        .describe('Tag ID to merge away, e.g. mysite:topics/eco'),
+      dest_tag_id: z
+        .string()
+        .describe('Tag ID to merge into, e.g. mysite:topics/sustainability'),
+      confirm_token: confirmTokenParam,
+      environment: environmentParam,
+    },
+    guarded('aem_merge_tag', {
+      operation: 'delete',
+      paths: ({ tag_id, dest_tag_id }) => [tagIdToPath(tag_id), tagIdToPath(dest_tag_id)],
+      destructive: true,
+    }, async ({ tag_id, dest_tag_id, environment }) => {
+      try {
+        const result = await mergeTag(tag_id, dest_tag_id, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_add_tags',
+    'Add tags to a page or DAM asset (cq:tags). Every tag ID is checked to exist before anything is written.',
+    {
+      path: z
+        .string()
+        .describe('JCR path of the page or asset, e.g. /content/mysite/en/home'),
+      tag_ids: z
+        .array(z.string())
+        .describe('Tag IDs to add, e.g. ["mysite:topics/sustainability"]'),
+      environment: environmentParam,
+    },
+    guarded('aem_add_tags', {
+      operation: 'write',
+      paths: ({ path }) => [path],
+      journal: {
+        snapshots: ({ path }) => [taggableNodePath(path)],
+      },
+    }, async ({ path, tag_ids, environment }) => {
+      try {
+        const result = await addTags(path, tag_ids, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_remove_tags',
+    'Remove tags from a page or DAM asset (cq:tags).',
+    {
+      path: z
+        .string()
+        .describe('JCR path of the page or asset, e.g. /content/mysite/en/home'),
+      tag_ids: z
+        .array(z.string())
+        .describe('Tag IDs to remove'),
+      environment: environmentParam,
+    },
+    guarded('aem_remove_tags', {
+      operation: 'write',
+      paths: ({ path }) => [path],
+      journal: {
+        snapshots: ({ path }) => [taggableNodePath(path)],
+      },
+    }, async ({ path, tag_ids, environment }) => {
+      try {
+        const result = await removeTags(path, tag_ids, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  // ─── Packages ──────────────────────────────────────────────────────────────
+
+  server.tool(
+    'aem_list_packages',
+    'List CRX packages with their group, version, build/install dates and filter definitions.',
+    {
+      group: z
+        .string()
+        .optional()
+        .describe('Only list packages in this group, e.g. my_packages'),
+      query: z
+        .string()
+        .optional()
+        .describe('Only list packages whose name or path contains this text'),
+      environment: environmentParam,
+    },
+    async ({ group, query, environment }) => {
+      try {
+        const result = await listPackages(group, query, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_create_package',
+    'Create a CRX package definition from filter roots with include/exclude rules. Build it with aem_build_package afterwards.',
+    {
+      name: z
+        .string()
+        .describe('Package name, e.g. mysite-content'),
+      group: z
+        .string()
+        .describe('Package group, e.g. my_packages'),
+      version: z
+        .string()
+        .optional()
+        .describe('Package version, e.g. 1.0'),
+      description: z
+        .string()
+        .optional()
+        .describe('Package description'),
+      filters: z
+        .array(z.object({
+          root: z.string().describe('Filter root path, e.g. /content/mysite/en'),
+          rules: z
+            .array(z.object({
+              modifier: z.enum(['include', 'exclude']),
+              pattern: z.string().describe('Regular expression matched against paths, e.g. /content/mysite/en/archive(/.*)?'),
+            }))
+            .optional()
+            .describe('Include/exclude rules, applied in order'),
+        }))
+        .describe('Filter definitions'),
+      environment: environmentParam,
+    },
+    guarded('aem_create_package', {
+      operation: 'package',
+      paths: ({ group }) => [`/etc/packages/${group}`],
+    }, async ({ name, group, version, description, filters, environment }) => {
+      try {
+        const result = await createPackage({ name, group, version, description, filters }, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_build_package',
+    'Build a CRX package so it contains the current content of its filter roots. Returns the build log and a count of entries per action.',
+    {
+      package_path: z
+        .string()
+        .describe('Package path, e.g. /etc/packages/my_packages/mysite-content-1.0.zip'),
+      environment: environmentParam,
+    },
+    guarded('aem_build_package', {
+      operation: 'package',
+      paths: ({ package_path }) => [package_path],
+    }, async ({ package_path, environment }) => {
+      try {
+        const result = await buildPackage(package_path, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_download_package',
+    'Download a built CRX package to a local zip file.',
+    {
+      package_path: z
+        .string()
+        .describe('Package path, e.g. /etc/packages/my_packages/mysite-content-1.0.zip'),
+      file_path: z
+        .string()
+        .describe('Absolute local path to write the zip to on the server; over the shared HTTP server, relative to MCP_HTTP_FILE_DIR'),
+      environment: environmentParam,
+    },
+    async ({ package_path, file_path, environment }) => {
+      try {
+        const result = await downloadPackage(package_path, file_path, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_upload_package',
+    'Upload a local CRX package zip to the package manager without installing it.',
+    {
+      file_path: z
+        .string()
+        .describe('Absolute local path of the package zip on the server; over the shared HTTP server, relative to MCP_HTTP_FILE_DIR'),
+      force: z
+        .boolean()
+        .optional()
+        .describe('Replace an existing package with the same name and version'),
+      environment: environmentParam,
+    },
+    guarded('aem_upload_package', {
+      operation: 'package',
+      paths: () => ['/etc/packages'],
+    }, async ({ file_path, force, environment }) => {
+      try {
+        const result = await uploadPackage(file_path, force ?? false, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_get_package_coverage',
+    'List the repository paths covered by a package filter on this environment, i.e. what an install could overwrite.',
+    {
+      package_path: z
+        .string()
+        .describe('Package path, e.g. /etc/packages/my_packages/mysite-content-1.0.zip'),
+      environment: environmentParam,
+    },
+    async ({ package_path, environment }) => {
+      try {
+        const result = await getPackageCoverage(package_path, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_install_package',
+    'Install an uploaded CRX package. Use dry_run=true first to preview the changes. Returns the install log and a count of entries per action (A added, U updated, D deleted, E error).',
+    {
+      package_path: z
+        .string()
+        .describe('Package path, e.g. /etc/packages/my_packages/mysite-content-1.0.zip'),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe('If true, only report what the install would change'),
+      recursive: z
+        .boolean()
+        .optional()
+        .describe('Also install subpackages. Defaults to true.'),
+      confirm_token: confirmTokenParam,
+      environment: environmentParam,
+    },
+    guarded('aem_install_package', {
+      operation: 'package',
+      paths: ({ package_path }) => [package_path],
+      skip: ({ dry_run }) => !!dry_run,
+      destructive: true,
+      preview: ({ package_path, recursive, environment }) => installPackage(package_path, true, recursive ?? true, environment),
+    }, async ({ package_path, dry_run, recursive, environment }) => {
+      try {
+        const result = await installPackage(package_path, dry_run ?? false, recursive ?? true, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  // ─── Search ────────────────────────────────────────────────────────────────
+
+  server.registerTool(
+    'aem_search',
+    {
+      description: 'Search AEM content using the QueryBuilder API. Supports full-text search, path filtering, and type filtering.',
+      inputSchema: {
+        fulltext: z
+          .string()
+          .optional()
+          .describe('Full-text search term to find in content'),
+        path: z
+          .string()
+          .optional()
+          .describe('Restrict search to this JCR path, e.g. /content/mysite'),
+        type: z
+          .string()
+          .optional()
+          .describe('JCR node type filter, e.g. cq:Page, dam:Asset, nt:unstructured'),
+        limit: z
+          .number()
+          .optional()
+          .describe('Maximum number of results to return (default 20)'),
+        offset: z
+          .number()
+          .optional()
+          .describe('Number of results to skip for pagination (default 0)'),
+        orderby: z
+          .string()
+          .optional()
+          .describe('Property to sort results by, e.g. @jcr:created'),
+        max_chars: maxCharsParam,
+        environment: environmentParam,
+      },
+      outputSchema: searchResultSchema.shape,
+    },
+    async ({ fulltext, path, type, limit, offset, orderby, max_chars, environment }) => {
+      try {
+        const response = await searchContent({ fulltext, path, type, limit, offset, orderby }, environment);
+        const result = toSearchResult(response as Record<string, unknown>);
+        return structuredResult(result, textResult(result, max_chars, PAGING_HINT));
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.registerTool(
+    'aem_query',
+    {
+      description: 'Run a structured QueryBuilder query with typed predicates (property, daterange, relativedaterange, tagid, nodename, OR/NOT groups), selective properties, guessed totals and optional automatic pagination. Example: pages modified in the last 7 days tagged X without a description.',
+      inputSchema: {
+        path: z
+          .string()
+          .optional()
+          .describe('Restrict the query to this JCR path, e.g. /content/mysite'),
+        type: z
+          .string()
+          .optional()
+          .describe('JCR node type filter, e.g. cq:Page, dam:Asset'),
+        ...predicateSchema,
+        or: z
+          .boolean()
+          .optional()
+          .describe('Match any top-level predicate instead of all'),
+        groups: z
+          .array(predicateGroupSchema)
+          .optional()
+          .describe('Nested predicate groups, e.g. {"or": true, "tagid": [...]} to match any of several tags'),
+        orderby: z
+          .string()
+          .optional()
+          .describe('Property to sort by, e.g. @jcr:content/cq:lastModified'),
+        sort: z
+          .enum(['asc', 'desc'])
+          .optional()
+          .describe('Sort direction. Defaults to asc.'),
+        properties: z
+          .array(z.string())
+          .optional()
+          .describe('Only return these properties per hit, e.g. ["jcr:path", "jcr:content/jcr:title"]'),
+        limit: z
+          .number()
+          .optional()
+          .describe('Results per page (default 20)'),
+        offset: z
+          .number()
+          .optional()
+          .describe('Number of results to skip (default 0)'),
+        guess_total: z
+          .union([z.boolean(), z.number()])
+          .optional()
+          .describe('Estimate the total instead of counting all matches; faster on large result sets'),
+        auto_paginate: z
+          .boolean()
+          .optional()
+          .describe('Fetch successive pages until all results or max_results are collected'),
+        max_results: z
+          .number()
+          .optional()
+          .describe('Cap on results collected with auto_paginate (default 500, max 5000)'),
+        max_chars: maxCharsParam,
+        environment: environmentParam,
+      },
+      outputSchema: searchResultSchema.shape,
+    },
+    async ({ guess_total, auto_paginate, max_results, max_chars, environment, ...query }) => {
+      try {
+        const result = await runQuery({
+          ...query,
+          guessTotal: guess_total,
+          autoPaginate: auto_paginate,
+          maxResults: max_results,
+        }, environment);
+        return structuredResult(result, textResult(result, max_chars, PAGING_HINT));
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  // ─── Assets ────────────────────────────────────────────────────────────────
+
+  server.registerTool(
+    'aem_get_asset',
+    {
+      description: 'Get metadata and properties of a DAM asset at the specified path.',
+      inputSchema: {
+        asset_path: z
+          .string()
+          .describe('JCR path of the asset, e.g. /content/dam/mysite/images/photo.jpg'),
+        ...shapingParams,
+        environment: environmentParam,
+      },
+      outputSchema: assetSchema.shape,
+    },
+    async ({ asset_path, environment, ...shaping }) => {
+      try {
+        const result = await getAsset(asset_path, environment);
+        return structuredResult(toAsset(asset_path, result), shapedResult(asset_path, result, shaping));
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.registerTool(
+    'aem_list_assets',
+    {
+      description: 'List all DAM assets inside a given folder path.',
+      inputSchema: {
+        folder_path: z
+          .string()
+          .describe('JCR path of the DAM folder, e.g. /content/dam/mysite/images'),
+        environment: environmentParam,
+      },
+      outputSchema: searchResultSchema.shape,
+    },
+    async ({ folder_path, environment }) => {
+      try {
+        const result = await listAssets(folder_path, environment);
+        return structuredResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.registerTool(
+    'aem_get_asset_renditions',
+    {
+      description: 'Get all available renditions (sizes/formats) for a DAM asset.',
+      inputSchema: {
+        asset_path: z
+          .string()
+          .describe('JCR path of the asset, e.g. /content/dam/mysite/images/photo.jpg'),
+        environment: environmentParam,
+      },
+      outputSchema: {
+        assetPath: z.string(),
+        renditions: z.array(renditionSchema),
+      },
+    },
+    async ({ asset_path, environment }) => {
+      try {
+        const renditions = await getAssetRenditions(asset_path, environment);
+        return structuredResult({ assetPath: asset_path, renditions });
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_get_asset_rendition',
+    'Download a DAM asset rendition and return it as viewable content: images as image content, text renditions as text, other formats (e.g. PDF) as an embedded resource. Without a rendition name, picks the largest web rendition within the size budget.',
+    {
+      asset_path: z
+        .string()
+        .describe('JCR path of the asset, e.g. /content/dam/mysite/images/photo.jpg'),
+      rendition: z
+        .string()
+        .optional()
+        .describe('Rendition name, e.g. cq5dam.web.1280.1280.jpeg or original. Defaults to the best web rendition.'),
+      max_bytes: z
+        .number()
+        .optional()
+        .describe('Maximum rendition size in bytes (default 1000000)'),
+      environment: environmentParam,
+    },
+    async ({ asset_path, rendition, max_bytes, environment }) => {
+      try {
+        const result = await getAssetRendition(asset_path, rendition, max_bytes, environment);
+        return renditionResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_upload_asset',
+    'Upload a file to AEM DAM from a local file path or base64 data, creating or replacing the asset. Uses direct binary upload (with multipart chunking) on AEM as a Cloud Service and the Assets HTTP API on AEM 6.5. Can set initial metadata in the same call.',
+    {
+      folder_path: z
+        .string()
+        .describe('JCR path of the target DAM folder, e.g. /content/dam/mysite/images'),
+      file_path: z
+        .string()
+        .optional()
+        .describe('Absolute path of a local file to upload on the server; over the shared HTTP server, relative to MCP_HTTP_FILE_DIR'),
+      base64_data: z
+        .string()
+        .optional()
+        .describe('Base64-encoded file content, used instead of file_path'),
+      file_name: z
+        .string()
+        .optional()
+        .describe('Asset name in DAM. Defaults to the local file name; required with base64_data.'),
+      mime_type: z
+        .string()
+        .optional()
+        .describe('MIME type of the file. Inferred from the file extension when omitted.'),
+      metadata: z
+        .record(z.union([z.string(), z.array(z.string())]))
+        .optional()
+        .describe('Initial metadata for jcr:content/metadata, e.g. {"dc:title": "Hero image", "dc:description": "..."}'),
+      replace: z
+        .boolean()
+        .optional()
+        .describe('Replace the asset if it already exists. Defaults to false.'),
+      mode: z
+        .enum(['auto', 'direct', 'assets-api'])
+        .optional()
+        .describe('Upload protocol. Defaults to auto (direct binary upload on *.adobeaemcloud.com hosts).'),
+      environment: environmentParam,
+    },
+    guarded('aem_upload_asset', {
+      operation: 'write',
+      paths: ({ folder_path }) => [folder_path],
+      journal: {
+        snapshots: ({ folder_path, file_name, file_path }) => [`${folder_path.replace(/\/$/, '')}/${file_name ?? posix.basename(file_path ?? '')}`],
+      },
+    }, async ({ folder_path, file_path, base64_data, file_name, mime_type, metadata, replace, mode, environment }) => {
+      try {
+        const result = await uploadAsset({
+          folderPath: folder_path,
+          filePath: file_path,
+          base64Data: base64_data,
+          fileName: file_name,
+          mimeType: mime_type,
+          metadata,
+          replace,
+          mode,
+        }, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_update_asset_metadata',
+    'Update metadata properties of a DAM asset (jcr:content/metadata), e.g. dc:title, dc:description, alt text or custom schema fields.',
+    {
+      asset_path: z
+        .string()
+        .describe('JCR path of the asset, e.g. /content/dam/mysite/images/photo.jpg'),
+      metadata: z
+        .record(z.union([z.string(), z.array(z.string())]))
+        .describe('Key/value map of metadata properties. Arrays are stored as multi-value properties, e.g. {"dc:title": "Hero", "dc:subject": ["beach", "summer"]}'),
+      environment: environmentParam,
+    },
+    guarded('aem_update_asset_metadata', {
+      operation: 'write',
+      paths: ({ asset_path }) => [asset_path],
+      journal: {
+        snapshots: ({ asset_path }) => [`${asset_path}/jcr:content/metadata`],
+      },
+    }, async ({ asset_path, metadata, environment }) => {
+      try {
+        const result = await updateAssetMetadata(asset_path, metadata, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_batch_update_asset_metadata',
+    'Apply the same metadata properties to every asset in a DAM folder. Reports success or failure per asset.',
+    {
+      folder_path: z
+        .string()
+        .describe('JCR path of the DAM folder, e.g. /content/dam/mysite/images'),
+      metadata: z
+        .record(z.union([z.string(), z.array(z.string())]))
+        .describe('Key/value map of metadata properties to set on each asset'),
+      recursive: z
+        .boolean()
+        .optional()
+        .describe('Include assets in subfolders. Defaults to false.'),
+      environment: environmentParam,
+    },
+    guarded('aem_batch_update_asset_metadata', {
+      operation: 'write',
+      paths: ({ folder_path }) => [folder_path],
+    }, async ({ folder_path, metadata, recursive, environment }) => {
+      try {
+        const result = await batchUpdateAssetMetadata(folder_path, metadata, recursive ?? false, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_create_asset_folder',
+    'Create a DAM folder with a title.',
+    {
+      parent_path: z
+        .string()
+        .describe('JCR path of the parent DAM folder, e.g. /content/dam/mysite'),
+      name: z
+        .string()
+        .describe('URL-safe folder name, e.g. campaign-2024'),
+      title: z
+        .string()
+        .optional()
+        .describe('Folder title shown in the Assets UI. Defaults to the name.'),
+      environment: environmentParam,
+    },
+    guarded('aem_create_asset_folder', {
+      operation: 'write',
+      paths: ({ parent_path }) => [parent_path],
+      journal: {
+        snapshots: ({ parent_path, name }) => [`${parent_path}/${name}`],
+      },
+    }, async ({ parent_path, name, title, environment }) => {
+      try {
+        const result = await createAssetFolder(parent_path, name, title, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_move_asset',
+    'Move a DAM asset or folder to a new path.',
+    {
+      asset_path: z
+        .string()
+        .describe('JCR path of the asset or folder, e.g. /content/dam/mysite/images/photo.jpg'),
+      dest_path: z
+        .string()
+        .describe('Full destination path including the name, e.g. /content/dam/mysite/archive/photo.jpg'),
+      overwrite: z
+        .boolean()
+        .optional()
+        .describe('Overwrite an existing item at the destination. Defaults to false.'),
+      environment: environmentParam,
+    },
+    guarded('aem_move_asset', {
+      operation: 'write',
+      paths: ({ asset_path, dest_path }) => [asset_path, dest_path],
+      journal: {
+        undo: ({ asset_path, dest_path }) => ({ kind: 'move', type: 'asset', from: asset_path, to: dest_path }),
+      },
+    }, async ({ asset_path, dest_path, overwrite, environment }) => {
+      try {
+        const result = await moveAsset(asset_path, dest_path, overwrite ?? false, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_rename_asset',
+    'Rename a DAM asset or folder in place.',
+    {
+      asset_path: z
+        .string()
+        .describe('JCR path of the asset or folder, e.g. /content/dam/mysite/images/photo.jpg'),
+      new_name: z
+        .string()
+        .describe('New name, e.g. hero-photo.jpg'),
+      environment: environmentParam,
+    },
+    guarded('aem_rename_asset', {
+      operation: 'write',
+      paths: ({ asset_path }) => [asset_path],
+      journal: {
+        undo: ({ asset_path, new_name }) => ({
+          kind: 'move',
+          type: 'asset',
+          from: asset_path,
+          to: `${posix.dirname(asset_path)}/${new_name}`,
+        }),
+      },
+    }, async ({ asset_path, new_name, environment }) => {
+      try {
+        const result = await renameAsset(asset_path, new_name, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_delete_asset',
+    'Delete a DAM asset, or a DAM folder together with everything in it.',
+    {
+      asset_path: z
+        .string()
+        .describe('JCR path of the asset or folder to delete, e.g. /content/dam/mysite/images/old.jpg'),
+      confirm_token: confirmTokenParam,
+      environment: environmentParam,
+    },
+    guarded('aem_delete_asset', {
+      operation: 'delete',
+      paths: ({ asset_path }) => [asset_path],
+      destructive: true,
+      // Snapshots hold node properties, not renditions, so a deleted asset cannot be
+      // restored. The delete is journaled without an undo.
+    }, async ({ asset_path, environment }) => {
+      try {
+        const result = await deleteAsset(asset_path, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  // ─── Content Fragments ─────────────────────────────────────────────────────
+
+  server.registerTool(
+    'aem_get_content_fragment',
+    {
+      description: 'Get the content and metadata of an AEM Content Fragment at the specified path. With normalized=true (implied by variation or resolve_depth), returns each field with its value, type and source variation, optionally inlining referenced fragments and assets.',
+      inputSchema: {
+        fragment_path: z
+          .string()
+          .describe('JCR path of the content fragment, e.g. /content/dam/mysite/fragments/article-1'),
+        normalized: z
+          .boolean()
+          .optional()
+          .describe('Return normalized fields instead of the raw Assets API JSON. Defaults to false.'),
+        variation: z
+          .string()
+          .optional()
+          .describe('Variation to read; fields it does not override fall back to master. Defaults to master.'),
+        resolve_depth: z
+          .number()
+          .optional()
+          .describe('Levels of fragment and content references to resolve inline (default 0)'),
+        ...shapingParams,
+        environment: environmentParam,
+      },
+      outputSchema: contentFragmentSchema.shape,
+    },
+    async ({ fragment_path, normalized, variation, resolve_depth, environment, ...shaping }) => {
+      try {
+        if (normalized || variation || resolve_depth) {
+          const result = await getResolvedContentFragment(fragment_path, { variation, depth: resolve_depth }, environment);
+          return structuredResult(result, textResult(result, shaping.max_chars));
+        }
+        // The text shows the Assets API JSON; the structured content is always normalized
+        const [result, fragment] = await Promise.all([
+          getContentFragment(fragment_path, environment),
+          getResolvedContentFragment(fragment_path, {}, environment),
+        ]);
+        return structuredResult(fragment, shapedResult(fragment_path, result, shaping));
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.registerTool(
+    'aem_list_content_fragments',
+    {
+      description: 'List Content Fragments in a DAM folder, optionally filtered by Content Fragment Model.',
+      inputSchema: {
+        folder_path: z
+          .string()
+          .describe('JCR path of the DAM folder to search in, e.g. /content/dam/mysite/fragments'),
+        model_path: z
+          .string()
+          .optional()
+          .describe(
+            'Optional path to the Content Fragment Model to filter by, e.g. /conf/mysite/settings/dam/cfm/models/article'
+          ),
+        environment: environmentParam,
+      },
+      outputSchema: searchResultSchema.shape,
+    },
+    async ({ folder_path, model_path, environment }) => {
+      try {
+        const result = await listContentFragments(folder_path, model_path, environment);
+        return structuredResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_get_content_fragment_model',
+    'Get the field definitions of a Content Fragment Model: names, data types, multi-value and required flags, enumeration options and allowed fragment/content references. Check this before creating or updating fragments.',
+    {
+      model_path: z
+        .string()
+        .describe('Path to the Content Fragment Model, e.g. /conf/mysite/settings/dam/cfm/models/article'),
+      environment: environmentParam,
+    },
+    async ({ model_path, environment }) => {
+      try {
+        const result = await getContentFragmentModel(model_path, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_create_content_fragment',
+    'Create a new Content Fragment in AEM DAM using a specified Content Fragment Model.',
+    {
+      parent_path: z
+        .string()
+        .describe('JCR path of the parent DAM folder, e.g. /content/dam/mysite/fragments'),
+      name: z
+        .string()
+        .describe('URL-safe name for the new fragment, e.g. my-article'),
+      model_path: z
+        .string()
+        .describe('Path to the Content Fragment Model, e.g. /conf/mysite/settings/dam/cfm/models/article'),
+      title: z
+        .string()
+        .describe('Title of the content fragment'),
+      description: z
+        .string()
+        .optional()
+        .describe('Optional description of the content fragment'),
+      fields: z
+        .record(z.union([z.string(), z.array(z.string())]))
+        .optional()
+        .describe('Initial field values keyed by model field name. Validated against the model before the fragment is created.'),
+      environment: environmentParam,
+    },
+    guarded('aem_create_content_fragment', {
+      operation: 'write',
+      paths: ({ parent_path }) => [parent_path],
+      journal: {
+        snapshots: ({ parent_path, name }) => [`${parent_path}/${name}`],
+      },
+    }, async ({ parent_path, name, model_path, title, description, fields, environment }) => {
+      try {
+        const result = await createContentFragment(parent_path, name, model_path, title, description, fields, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_update_content_fragment',
+    'Update the properties or field values of an existing AEM Content Fragment.',
     {
       fragment_path: z
         .string()
@@ -372,12 +2702,310 @@ export function registerTools(server: McpServer): void {
       properties: z
         .record(z.union([z.string(), z.array(z.string())]))
         .describe(
-          'Key/value map of fragment properties to update. Values can be strings or arrays of strings for multi-value fields.'
+          'Key/value map of fragment properties to update. Values can be strings or arrays of strings for multi-value fields. Field names and values are validated against the fragment\'s model before writing.'
         ),
+      create_version: z
+        .boolean()
+        .optional()
+        .describe('Create a version of the fragment before writing. Defaults to the environment\'s AUTO_VERSION setting.'),
+      environment: environmentParam,
+    },
+    guarded('aem_update_content_fragment', {
+      operation: 'write',
+      paths: ({ fragment_path }) => [fragment_path],
+      journal: {
+        snapshots: ({ fragment_path }) => [`${fragment_path}/jcr:content/data`],
+      },
+    }, async ({ fragment_path, properties, create_version, environment }) => {
+      try {
+        const result = await updateContentFragment(fragment_path, properties, create_version, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_list_content_fragment_variations',
+    'List the variations of a Content Fragment with their titles and descriptions.',
+    {
+      fragment_path: z
+        .string()
+        .describe('JCR path of the content fragment, e.g. /content/dam/mysite/fragments/article-1'),
+      environment: environmentParam,
+    },
+    async ({ fragment_path, environment }) => {
+      try {
+        const result = await listFragmentVariations(fragment_path, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_create_content_fragment_variation',
+    'Create a variation of a Content Fragment, starting from a copy of master with optional field overrides.',
+    {
+      fragment_path: z
+        .string()
+        .describe('JCR path of the content fragment, e.g. /content/dam/mysite/fragments/article-1'),
+      name: z
+        .string()
+        .describe('Variation name, e.g. summary'),
+      title: z
+        .string()
+        .describe('Variation title'),
+      description: z
+        .string()
+        .optional()
+        .describe('Optional variation description'),
+      fields: z
+        .record(z.union([z.string(), z.array(z.string())]))
+        .optional()
+        .describe('Field values that differ from master, validated against the model'),
+      environment: environmentParam,
+    },
+    guarded('aem_create_content_fragment_variation', {
+      operation: 'write',
+      paths: ({ fragment_path }) => [fragment_path],
+      journal: {
+        // The variation's data and its title and description in the model
+        snapshots: ({ fragment_path, name }) => [
+          `${fragment_path}/jcr:content/data`,
+          `${fragment_path}/jcr:content/model/variations/${name}`,
+        ],
+      },
+    }, async ({ fragment_path, name, title, description, fields, environment }) => {
+      try {
+        const result = await createFragmentVariation(fragment_path, name, title, description, fields, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_update_content_fragment_variation',
+    'Update field values of a Content Fragment variation. Values are validated against the model.',
+    {
+      fragment_path: z
+        .string()
+        .describe('JCR path of the content fragment, e.g. /content/dam/mysite/fragments/article-1'),
+      variation: z
+        .string()
+        .describe('Variation name, e.g. summary'),
+      fields: z
+        .record(z.union([z.string(), z.array(z.string())]))
+        .describe('Field values to set on the variation'),
+      environment: environmentParam,
+    },
+    guarded('aem_update_content_fragment_variation', {
+      operation: 'write',
+      paths: ({ fragment_path }) => [fragment_path],
+      journal: {
+        snapshots: ({ fragment_path }) => [`${fragment_path}/jcr:content/data`],
+      },
+    }, async ({ fragment_path, variation, fields, environment }) => {
+      try {
+        const result = await updateFragmentVariation(fragment_path, variation, fields, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_delete_content_fragment_variation',
+    'Delete a variation of a Content Fragment. The master variation cannot be deleted.',
+    {
+      fragment_path: z
+        .string()
+        .describe('JCR path of the content fragment, e.g. /content/dam/mysite/fragments/article-1'),
+      variation: z
+        .string()
+        .describe('Variation name to delete'),
+      confirm_token: confirmTokenParam,
+      environment: environmentParam,
+    },
+    guarded('aem_delete_content_fragment_variation', {
+      operation: 'delete',
+      paths: ({ fragment_path }) => [fragment_path],
+      destructive: true,
+      journal: {
+        // The variation's data and its title and description in the model
+        snapshots: ({ fragment_path, variation }) => [
+          `${fragment_path}/jcr:content/data`,
+          `${fragment_path}/jcr:content/model/variations/${variation}`,
+        ],
+      },
+    }, async ({ fragment_path, variation, environment }) => {
+      try {
+        const result = await deleteFragmentVariation(fragment_path, variation, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  // ─── GraphQL ───────────────────────────────────────────────────────────────
+
+  server.tool(
+    'aem_list_graphql_endpoints',
+    'List the AEM GraphQL endpoints (one per Sites configuration, plus global).',
+    {
+      environment: environmentParam,
+    },
+    async ({ environment }) => {
+      try {
+        const result = await listGraphqlEndpoints(environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_get_graphql_schema',
+    'Get the GraphQL schema (SDL) of an AEM GraphQL endpoint, generated from its Content Fragment Models.',
+    {
+      endpoint: z
+        .string()
+        .describe('Configuration name, e.g. mysite or global, or a full endpoint path'),
+      environment: environmentParam,
+    },
+    async ({ endpoint, environment }) => {
+      try {
+        const result = await getGraphqlSchema(endpoint, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_graphql_query',
+    'Run an ad-hoc GraphQL query against an AEM GraphQL endpoint and return exactly what a headless front-end would receive.',
+    {
+      endpoint: z
+        .string()
+        .describe('Configuration name, e.g. mysite or global, or a full endpoint path'),
+      query: z
+        .string()
+        .describe('GraphQL query, e.g. { articleList { items { _path title } } }'),
+      variables: z
+        .record(z.unknown())
+        .optional()
+        .describe('Optional query variables'),
+      environment: environmentParam,
+    },
+    async ({ endpoint, query, variables, environment }) => {
+      try {
+        const result = await runGraphqlQuery(endpoint, query, variables, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_list_persisted_queries',
+    'List the persisted GraphQL queries stored in AEM.',
+    {
+      environment: environmentParam,
+    },
+    async ({ environment }) => {
+      try {
+        const result = await listPersistedQueries(environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    }
+  );
+
+  server.tool(
+    'aem_create_persisted_query',
+    'Create a persisted GraphQL query under a Sites configuration.',
+    {
+      query_path: z
+        .string()
+        .describe('Configuration and query name, e.g. mysite/all-articles'),
+      query: z
+        .string()
+        .describe('GraphQL query text'),
+      max_age: z
+        .number()
+        .optional()
+        .describe('Optional cache max-age in seconds for the query response'),
+      environment: environmentParam,
+    },
+    guarded('aem_create_persisted_query', {
+      operation: 'write',
+      paths: ({ query_path }) => [persistedQueryPath(query_path)],
+    }, async ({ query_path, query, max_age, environment }) => {
+      try {
+        const result = await createPersistedQuery(query_path, query, max_age, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_update_persisted_query',
+    'Replace the text (and optionally the cache max-age) of an existing persisted GraphQL query.',
+    {
+      query_path: z
+        .string()
+        .describe('Configuration and query name, e.g. mysite/all-articles'),
+      query: z
+        .string()
+        .describe('New GraphQL query text'),
+      max_age: z
+        .number()
+        .optional()
+        .describe('Optional cache max-age in seconds for the query response'),
+      environment: environmentParam,
+    },
+    guarded('aem_update_persisted_query', {
+      operation: 'write',
+      paths: ({ query_path }) => [persistedQueryPath(query_path)],
+    }, async ({ query_path, query, max_age, environment }) => {
+      try {
+        const result = await updatePersistedQuery(query_path, query, max_age, environment);
+        return textResult(result);
+      } catch (err) {
+        return errorResult(String(err));
+      }
+    })
+  );
+
+  server.tool(
+    'aem_execute_persisted_query',
+    'Execute a persisted GraphQL query with variables, the same way a front-end calls it.',
+    {
+      query_path: z
+        .string()
+        .describe('Configuration and query name, e.g. mysite/article-by-slug'),
+      variables: z
+        .record(z.union([z.string(), z.number(), z.boolean()]))
+        .optional()
+        .describe('Query variables, e.g. {"slug": "hello-world"}'),
+      environment: environmentParam,
     },
-    async ({ fragment_path, properties }) => {
+    async ({ query_path, variables, environment }) => {
       try {
-        const result = await updateContentFragment(fragment_path, properties);
+        const result = await executePersistedQuery(query_path, variables, environment);
         return textResult(result);
       } catch (err) {
         return errorResult(String(err));
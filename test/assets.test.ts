@@ -0,0 +1,122 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getAssetRendition, uploadAsset } from '../src/aem-client.js';
+import { AemError } from '../src/errors.js';
+import { aem, useFakeAem, writes } from './fake-aem.js';
+
+useFakeAem();
+
+const FOLDER = '/content/dam/mysite/images';
+
+let directory: string;
+
+before(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'aem-assets-'));
+});
+
+after(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+function assetStatus(status: number): void {
+  aem.handlers.push((method, path) => method === 'HEAD' && path === `${FOLDER}/hero.png.json`
+    ? new Response(null, { status })
+    : undefined);
+}
+
+test('uploads new assets and refuses to overwrite existing ones', async () => {
+  const upload = { folderPath: FOLDER, base64Data: Buffer.from('png').toString('base64'), fileName: 'hero.png', mode: 'assets-api' as const };
+
+  assetStatus(404);
+  const created = await uploadAsset(upload) as { replaced: boolean };
+  assert.equal(created.replaced, false);
+  assert.deepEqual(writes().map((request) => [request.method, request.path]), [['POST', `/api/assets${FOLDER}/hero.png`]]);
+
+  aem.handlers = [];
+  aem.requests = [];
+  assetStatus(200);
+  await assert.rejects(uploadAsset(upload), /already exists/);
+  assert.equal(writes().length, 0);
+});
+
+test('fails when AEM cannot say whether the asset exists', async () => {
+  for (const status of [401, 403, 500]) {
+    aem.handlers = [];
+    aem.requests = [];
+    assetStatus(status);
+    await assert.rejects(
+      uploadAsset({ folderPath: FOLDER, base64Data: 'cG5n', fileName: 'hero.png', mode: 'assets-api' }),
+      (err: AemError) => err instanceof AemError && err.status === status && /check asset failed/.test(err.message)
+    );
+    assert.equal(writes().length, 0);
+  }
+});
+
+test('direct binary uploads send a local file in parts', async () => {
+  const file = join(directory, 'hero.png');
+  await writeFile(file, 'abcdefghij');
+  assetStatus(404);
+  aem.handlers.push((method, path) => path === `${FOLDER}.initiateUpload.json`
+    ? Response.json({
+      completeURI: `${FOLDER}.completeUpload.json`,
+      files: [{
+        fileName: 'hero.png',
+        mimeType: 'image/png',
+        uploadToken: 'token',
+        uploadURIs: ['http://blob.test/part1', 'http://blob.test/part2', 'http://blob.test/part3'],
+        minPartSize: 1,
+        maxPartSize: 4,
+      }],
+    })
+    : undefined);
+
+  const result = await uploadAsset({ folderPath: FOLDER, filePath: file, mode: 'direct' }) as { size: number; parts: number };
+  assert.equal(result.size, 10);
+  assert.equal(result.parts, 3);
+
+  const parts = writes().filter((request) => request.path.startsWith('/part'));
+  assert.deepEqual(parts.map((request) => Buffer.from(request.bytes!).toString()), ['abcd', 'efgh', 'ij']);
+  assert.equal(writes().at(-1)?.form.get('fileSize'), '10');
+});
+
+test('rendition search skips failing and oversized renditions without downloading them whole', async () => {
+  const asset = '/content/dam/mysite/hero.png';
+  const renditions = `${asset}/jcr:content/renditions`;
+  aem.repository[asset] = {
+    'jcr:content': {
+      renditions: {
+        'cq5dam.web.1280.1280.png': {},
+        'cq5dam.web.640.640.png': {},
+        'cq5dam.thumbnail.319.319.png': {},
+      },
+    },
+  };
+
+  // The 640 rendition streams without a content-length and never ends on its own
+  let chunksRead = 0;
+  const endless = () => new ReadableStream<Uint8Array>({
+    pull(controller) {
+      chunksRead++;
+      controller.enqueue(new Uint8Array(1024));
+    },
+  });
+  aem.handlers.push((method, path) => {
+    if (path === `${renditions}/cq5dam.web.1280.1280.png`) return new Response(null, { status: 500 });
+    if (path === `${renditions}/cq5dam.web.640.640.png`) return new Response(method === 'HEAD' ? null : endless());
+    if (path === `${renditions}/cq5dam.thumbnail.319.319.png`) {
+      return new Response(method === 'HEAD' ? null : 'thumb', { headers: { 'Content-Type': 'image/png' } });
+    }
+    return undefined;
+  });
+
+  const rendition = await getAssetRendition(asset, undefined, 4096);
+  assert.equal(rendition.name, 'cq5dam.thumbnail.319.319.png');
+  assert.equal(rendition.data.toString(), 'thumb');
+  assert.ok(chunksRead <= 6, `read ${chunksRead} chunks of the oversized rendition`);
+
+  await assert.rejects(getAssetRendition(asset, undefined, 4), /tried: cq5dam\.web\.1280\.1280\.png \(HTTP 500\), cq5dam\.web\.640\.640\.png \(over budget\)/);
+  await assert.rejects(getAssetRendition(asset, 'cq5dam.web.1280.1280.png'), /\(500\)/);
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AemError, errorDetail, isTransient, requestError, responseError } from '../src/errors.js';
+import { testEnvironment } from './fixtures.js';
+
+test('picks the message out of JSON error bodies', () => {
+  assert.equal(errorDetail('{"message":"Model not found"}'), 'Model not found');
+  assert.equal(errorDetail('{"error":"invalid_client","error_description":"Client ID is invalid"}'), 'Client ID is invalid');
+  assert.equal(errorDetail('{"errors":[{"message":"Field \\"title\\" is undefined"}]}'), 'Field "title" is undefined');
+});
+
+test('picks the message out of Sling HTML responses', () => {
+  const body = '<html><head><title>Error while processing /content/mysite</title></head><body>' +
+    '<div id="Message">javax.jcr.ItemExistsException:&nbsp;This node already exists.</div></body></html>';
+  assert.equal(errorDetail(body), 'javax.jcr.ItemExistsException: This node already exists.');
+  assert.equal(errorDetail('<html><title>404 Resource at /x not found</title></html>'), '404 Resource at /x not found');
+});
+
+test('collapses and shortens plain text bodies', () => {
+  assert.equal(errorDetail('  \n '), undefined);
+  assert.equal(errorDetail('Service\n   Unavailable'), 'Service Unavailable');
+  assert.equal(errorDetail('x'.repeat(400)), `${'x'.repeat(300)}…`);
+});
+
+test('classifies responses by status with a hint for the kind', async () => {
+  const env = testEnvironment({ name: 'stage', envPrefix: 'AEM_STAGE_' });
+  const cases: Array<[number, string, RegExp]> = [
+    [401, 'authentication', /AEM_STAGE_USERNAME and AEM_STAGE_PASSWORD/],
+    [403, 'permission', /lacks permission/],
+    [404, 'not_found', /does not exist/],
+    [409, 'conflict', /changed concurrently/],
+    [400, 'invalid_request', /rejected the request parameters/],
+    [429, 'rate_limited', /throttling/],
+    [500, 'server', /error\.log/],
+    [503, 'server', /unavailable/],
+  ];
+  for (const [status, kind, hint] of cases) {
+    const error = await responseError(env, new Response('{"message":"nope"}', { status }), 'page update', '/content/mysite');
+    assert.ok(error instanceof AemError);
+    assert.equal(error.kind, kind);
+    assert.equal(error.status, status);
+    assert.equal(error.environment, 'stage');
+    assert.equal(error.detail, 'nope');
+    assert.match(error.hint, hint);
+    assert.match(error.message, new RegExp(`^AEM page update failed on /content/mysite \\(${status}\\): nope\\. `));
+  }
+});
+
+test('points token profiles at their IMS credentials', async () => {
+  const env = testEnvironment({ authType: 'token' });
+  const error = await responseError(env, new Response('', { status: 401, statusText: 'Unauthorized' }), 'request', '/content');
+  assert.equal(error.detail, 'Unauthorized');
+  assert.match(error.hint, /access token.*AEM_CLIENT_ID, AEM_CLIENT_SECRET and AEM_SCOPES/);
+});
+
+test('tells timeouts from unreachable hosts', () => {
+  const env = testEnvironment();
+  const timeout = requestError(env, 'GET request', '/content', new DOMException('timed out', 'TimeoutError'), 1000);
+  assert.equal(timeout.kind, 'timeout');
+  assert.equal(timeout.detail, 'no response after 1000 ms');
+  assert.match(timeout.hint, /AEM_TIMEOUT_MS/);
+
+  const network = requestError(env, 'GET request', '/content', new TypeError('fetch failed', { cause: new Error('ECONNREFUSED') }), 1000);
+  assert.equal(network.kind, 'network');
+  assert.equal(network.detail, 'Error: ECONNREFUSED');
+  assert.match(network.hint, /AEM_BASE_URL/);
+});
+
+test('only retries failures a later attempt may not hit', () => {
+  assert.deepEqual(
+    [400, 401, 404, 429, 500, 501, 502, 503, 504, 505].filter(isTransient),
+    [429, 500, 502, 503, 504]
+  );
+});
@@ -0,0 +1,106 @@
+import { after, before, beforeEach, mock } from 'node:test';
+
+// A fake AEM author behind the global fetch: GETs render `repository` the way
+// Sling's JSON servlet does, other requests are recorded and answered with 200
+// unless a handler answers them first.
+export type Node = Record<string, unknown>;
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  form: URLSearchParams;
+  // Binary bodies, e.g. asset uploads
+  bytes?: Uint8Array;
+}
+
+type Handler = (method: string, path: string, url: URL) => Response | undefined;
+
+// Trees with more nodes than this are refused on .infinity.json, as Sling does above its limit
+const INFINITY_LIMIT = 20;
+
+export const aem = {
+  repository: {} as Record<string, Node>,
+  requests: [] as RecordedRequest[],
+  handlers: [] as Handler[],
+};
+
+// Mutating requests only; the CSRF token and reads are left out
+export function writes(): RecordedRequest[] {
+  return aem.requests.filter((request) => request.method !== 'GET' && request.method !== 'HEAD');
+}
+
+function isNode(value: unknown): value is Node {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function nodeAt(path: string): Node | undefined {
+  const root = Object.keys(aem.repository).find((key) => path === key || path.startsWith(`${key}/`));
+  if (!root) return undefined;
+  let node: unknown = aem.repository[root];
+  for (const name of path.slice(root.length).split('/').filter(Boolean)) {
+    node = isNode(node) ? node[name] : undefined;
+  }
+  return isNode(node) ? node : undefined;
+}
+
+function render(node: Node, depth: number): Node {
+  return Object.fromEntries(Object.entries(node)
+    .filter(([, value]) => !isNode(value) || depth > 0)
+    .map(([key, value]) => [key, isNode(value) ? render(value, depth - 1) : value]));
+}
+
+function countNodes(node: Node): number {
+  return 1 + Object.values(node).filter(isNode).reduce((sum, child) => sum + countNodes(child), 0);
+}
+
+export async function fakeFetch(input: string | URL | Request, init: RequestInit = {}): Promise<Response> {
+  const url = new URL(String(input));
+  const path = decodeURIComponent(url.pathname);
+  const method = init.method ?? 'GET';
+  if (path === '/libs/granite/csrf/token.json') return Response.json({ token: 'csrf' });
+  aem.requests.push({
+    method,
+    path,
+    form: new URLSearchParams(typeof init.body === 'string' ? init.body : ''),
+    bytes: init.body instanceof Uint8Array ? init.body : undefined,
+  });
+
+  for (const handler of aem.handlers) {
+    const response = handler(method, path, url);
+    if (response) return response;
+  }
+  if (method !== 'GET' && method !== 'HEAD') return new Response('', { status: 200 });
+
+  const [, nodePath, selector] = /^(.*?)(?:\.(infinity|\d+))?\.json$/.exec(path) ?? [];
+  const node = nodePath ? nodeAt(nodePath) : undefined;
+  if (!node) return new Response('', { status: 404 });
+  if (selector === 'infinity') {
+    return countNodes(node) > INFINITY_LIMIT ? new Response('[]', { status: 300 }) : Response.json(node);
+  }
+  return Response.json(render(node, selector === undefined ? 0 : Number(selector)));
+}
+
+// Points the default profile at the fake for the tests of one file. Profiles
+// are built once per process, so `env` holds the file's profile settings.
+export function useFakeAem(env: Record<string, string> = {}): void {
+  before(() => {
+    Object.assign(process.env, {
+      AEM_BASE_URL: 'http://aem.test',
+      AEM_USERNAME: 'admin',
+      AEM_PASSWORD: 'admin',
+      AEM_MAX_RETRIES: '0',
+      ...env,
+    });
+    mock.method(globalThis, 'fetch', fakeFetch);
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  beforeEach(() => {
+    aem.repository = {};
+    aem.requests = [];
+    aem.handlers = [];
+  });
+}
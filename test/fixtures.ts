@@ -0,0 +1,58 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { GUARDED_OPERATIONS, type AemEnvironment, type GuardedOperation, type PathRules } from '../src/environments.js';
+
+// A profile as loadEnvironment builds it, without touching process.env
+export function testEnvironment(overrides: Partial<AemEnvironment> = {}): AemEnvironment {
+  const pathRules = {} as Record<GuardedOperation, PathRules>;
+  for (const operation of GUARDED_OPERATIONS) pathRules[operation] = { allowed: [], denied: [] };
+  return {
+    name: 'default',
+    envPrefix: 'AEM_',
+    baseUrl: 'http://aem.test',
+    authType: 'basic',
+    username: 'admin',
+    password: 'admin',
+    clientId: '',
+    clientSecret: '',
+    scopes: '',
+    autoVersion: false,
+    timeoutMs: 1000,
+    maxRetries: 0,
+    production: false,
+    readOnly: false,
+    confirmDestructive: false,
+    pathRules,
+    accessToken: '',
+    tokenExpiresAt: 0,
+    csrfToken: '',
+    csrfTokenExpiresAt: 0,
+    ...overrides,
+  };
+}
+
+// An MCP client connected to a fresh server in the same process
+export async function connectClient(): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+export interface ToolResult {
+  isError?: boolean;
+  text: string;
+  structuredContent?: Record<string, unknown>;
+}
+
+export async function callTool(client: Client, name: string, args: Record<string, unknown>): Promise<ToolResult> {
+  const result = await client.callTool({ name, arguments: args });
+  const content = result.content as Array<{ type: string; text?: string }>;
+  return {
+    isError: result.isError as boolean | undefined,
+    text: content.filter((item) => item.type === 'text').map((item) => item.text).join('\n'),
+    structuredContent: result.structuredContent as Record<string, unknown> | undefined,
+  };
+}
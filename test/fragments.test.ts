@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createContentFragment,
+  getResolvedContentFragment,
+  validateFragmentFields,
+  type ContentFragmentField,
+  type ContentFragmentModel,
+} from '../src/aem-client.js';
+import { aem, useFakeAem, writes } from './fake-aem.js';
+
+useFakeAem();
+
+function field(name: string, dataType: string, extra: Partial<ContentFragmentField> = {}): ContentFragmentField {
+  return { name, dataType, multiple: false, required: false, ...extra };
+}
+
+const model: ContentFragmentModel = {
+  path: '/conf/mysite/settings/dam/cfm/models/article',
+  fields: [
+    field('headline', 'text-single', { required: true }),
+    field('rating', 'number', { valueType: 'long' }),
+    field('featured', 'boolean'),
+    field('published', 'calendar'),
+    field('category', 'enumeration', { options: ['news', 'blog'] }),
+    field('author', 'content-reference'),
+    field('keywords', 'text-single', { valueType: 'string[]', multiple: true }),
+  ],
+};
+
+test('accepts values that match the model', () => {
+  assert.deepEqual(validateFragmentFields(model, {
+    title: 'Fragment title',
+    headline: 'Hello',
+    rating: '4',
+    featured: 'true',
+    published: '2024-03-05T10:15:30Z',
+    category: 'news',
+    author: '/content/dam/mysite/authors/jane',
+    keywords: ['a', 'b'],
+  }), []);
+});
+
+test('reports values of the wrong type', () => {
+  assert.deepEqual(validateFragmentFields(model, {
+    headline: 'Hello',
+    rating: 'four',
+    featured: 'yes',
+    published: 'tomorrow',
+    category: 'event',
+    author: 'jane',
+    keywords: 'single',
+  }), [
+    { field: 'rating', message: 'expected a number, got "four"' },
+    { field: 'featured', message: 'expected true or false, got "yes"' },
+    { field: 'published', message: 'expected an ISO date, got "tomorrow"' },
+    { field: 'category', message: '"event" is not one of: news, blog' },
+    { field: 'author', message: 'expected a JCR path, got "jane"' },
+  ]);
+});
+
+test('suggests the closest field for unknown names', () => {
+  assert.deepEqual(validateFragmentFields(model, { headline: 'Hello', headlin: 'x', body: 'y' }), [
+    { field: 'headlin', message: `not a field of model ${model.path}. Did you mean "headline"?` },
+    { field: 'body', message: `not a field of model ${model.path}.` },
+  ]);
+});
+
+test('rejects arrays for single-valued fields', () => {
+  assert.deepEqual(validateFragmentFields(model, { headline: ['a', 'b'] }), [
+    { field: 'headline', message: 'field is single-valued but an array was given' },
+  ]);
+});
+
+test('checks required fields unless the update is partial', () => {
+  assert.deepEqual(validateFragmentFields(model, { rating: '3' }), [
+    { field: 'headline', message: 'required field is missing' },
+  ]);
+  assert.deepEqual(validateFragmentFields(model, { rating: '3' }, true), []);
+});
+
+const FOLDER = '/content/dam/mysite/fragments';
+
+function acceptCreate(): void {
+  aem.handlers.push((method, path) => method === 'POST' && path.startsWith('/api/assets/') ? Response.json({}) : undefined);
+}
+
+test('creates fragments from legacy templates without validating their fields', async () => {
+  const template = '/libs/settings/dam/cfm/templates/simple';
+  aem.repository[template] = { 'jcr:content': { elements: { main: { name: 'main' } } } };
+  acceptCreate();
+
+  await createContentFragment(FOLDER, 'note', template, 'Note', undefined, { main: 'Hello' });
+  assert.deepEqual(writes().map((request) => [request.method, request.path]), [
+    ['POST', `/api/assets${FOLDER}/note`],
+    ['PUT', `/api/assets${FOLDER}/note`],
+  ]);
+});
+
+test('does not create fragments when their model cannot be read', async () => {
+  acceptCreate();
+  await assert.rejects(
+    createContentFragment(FOLDER, 'article', '/conf/mysite/settings/dam/cfm/models/deleted', 'Article', undefined, { headline: 'Hello' }),
+    /could not be read/
+  );
+  assert.equal(writes().length, 0);
+});
+
+test('reads fragments with untyped fields when their model cannot be read', async () => {
+  const fragment = `${FOLDER}/article`;
+  aem.repository[fragment] = {
+    'jcr:content': {
+      'jcr:title': 'Article',
+      data: {
+        'cq:model': '/conf/mysite/settings/dam/cfm/models/deleted',
+        master: { headline: 'Hello', keywords: ['a', 'b'] },
+      },
+    },
+  };
+
+  const result = await getResolvedContentFragment(fragment);
+  assert.equal(result.model, '/conf/mysite/settings/dam/cfm/models/deleted');
+  assert.deepEqual(result.fields.map((item) => [item.name, item.type, item.value]), [
+    ['headline', 'unknown', 'Hello'],
+    ['keywords', 'unknown', ['a', 'b']],
+  ]);
+});
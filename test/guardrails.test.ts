@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runAsClient } from '../src/environments.js';
+import { assertOperationAllowed, issueConfirmation, redeemConfirmation } from '../src/guardrails.js';
+import { testEnvironment } from './fixtures.js';
+
+test('read-only profiles refuse every operation', () => {
+  const env = testEnvironment({ readOnly: true });
+  assert.throws(() => assertOperationAllowed(env, 'write', ['/content/mysite']), /read-only.*AEM_READ_ONLY/);
+});
+
+test('denied prefixes win over allowed ones and match whole segments', () => {
+  const env = testEnvironment();
+  env.pathRules.delete = { allowed: ['/content/mysite'], denied: ['/content/mysite/en'] };
+
+  assert.doesNotThrow(() => assertOperationAllowed(env, 'delete', ['/content/mysite/de/home']));
+  assert.doesNotThrow(() => assertOperationAllowed(env, 'delete', ['/content/mysite/english']));
+  assert.throws(() => assertOperationAllowed(env, 'delete', ['/content/mysite/en/home']), /denied prefix \/content\/mysite\/en/);
+  assert.throws(() => assertOperationAllowed(env, 'delete', ['/content/mysite2']), /not allowed.*Allowed prefixes: \/content\/mysite/);
+  assert.doesNotThrow(() => assertOperationAllowed(env, 'write', ['/content/mysite/en/home']));
+});
+
+test('calls without paths are refused only when the operation has an allowlist', () => {
+  const env = testEnvironment();
+  assert.doesNotThrow(() => assertOperationAllowed(env, 'workflow', []));
+  env.pathRules.workflow = { allowed: ['/content/mysite'], denied: [] };
+  assert.throws(() => assertOperationAllowed(env, 'workflow', []), /does not name the paths it changes/);
+});
+
+test('confirmation tokens are single-use', () => {
+  const env = testEnvironment();
+  const args = { page_path: '/content/mysite/en/home', force: true };
+  const { token } = issueConfirmation(env, 'aem_delete_page', args);
+
+  assert.doesNotThrow(() => redeemConfirmation(env, 'aem_delete_page', { ...args, confirm_token: token }, token));
+  assert.throws(() => redeemConfirmation(env, 'aem_delete_page', args, token), /unknown or expired/);
+});
+
+test('confirmation tokens ignore argument order, the token and the environment argument', () => {
+  const env = testEnvironment();
+  const { token } = issueConfirmation(env, 'aem_delete_page', { page_path: '/content/mysite/en/home', force: true });
+  assert.doesNotThrow(() => redeemConfirmation(env, 'aem_delete_page', {
+    force: true,
+    environment: 'default',
+    page_path: '/content/mysite/en/home',
+    confirm_token: token,
+  }, token));
+});
+
+test('confirmation tokens are bound to the tool, arguments, environment and client', () => {
+  const env = testEnvironment();
+  const args = { page_path: '/content/mysite/en/home' };
+  const attempts: Array<() => void> = [
+    () => redeemConfirmation(env, 'aem_delete_asset', args, issueConfirmation(env, 'aem_delete_page', args).token),
+    () => redeemConfirmation(env, 'aem_delete_page', { page_path: '/content/mysite/de/home' }, issueConfirmation(env, 'aem_delete_page', args).token),
+    () => redeemConfirmation(testEnvironment({ name: 'prod' }), 'aem_delete_page', args, issueConfirmation(env, 'aem_delete_page', args).token),
+    () => {
+      const { token } = runAsClient({ name: 'alice' }, () => issueConfirmation(env, 'aem_delete_page', args));
+      runAsClient({ name: 'bob' }, () => redeemConfirmation(env, 'aem_delete_page', args, token));
+    },
+  ];
+  for (const attempt of attempts) {
+    assert.throws(attempt, /issued for different arguments/);
+  }
+});
+
+test('confirmation tokens expire', (t) => {
+  const env = testEnvironment();
+  const args = { page_path: '/content/mysite/en/home' };
+  const { token, expiresAt } = issueConfirmation(env, 'aem_delete_page', args);
+  t.mock.method(Date, 'now', () => Date.parse(expiresAt));
+  assert.throws(() => redeemConfirmation(env, 'aem_delete_page', args, token), /unknown or expired/);
+});
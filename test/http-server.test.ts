@@ -0,0 +1,149 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import type { Server } from 'http';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { startHttpServer } from '../src/http-server.js';
+
+// The shared HTTP server: client tokens, session ownership and per-client profiles
+const ALICE = 'alice-token-0123456789';
+const BOB = 'bob-token-0123456789';
+const PORT = 20000 + Math.floor(Math.random() * 20000);
+const MCP_URL = `http://127.0.0.1:${PORT}/mcp`;
+
+let directory: string;
+let server: Server;
+
+async function clientsFile(clients: unknown[]): Promise<string> {
+  const path = join(directory, `clients-${Math.random().toString(36).slice(2)}.json`);
+  await writeFile(path, JSON.stringify({ clients }), 'utf-8');
+  return path;
+}
+
+before(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'aem-http-'));
+  Object.assign(process.env, {
+    AEM_ENVIRONMENTS: 'dev,prod',
+    MCP_HTTP_PORT: String(PORT),
+    AEM_JOURNAL: 'false',
+  });
+  // Nothing listens on port 9, so reachability checks fail fast
+  for (const name of ['DEV', 'PROD']) {
+    Object.assign(process.env, {
+      [`AEM_${name}_BASE_URL`]: 'http://127.0.0.1:9',
+      [`AEM_${name}_USERNAME`]: 'admin',
+      [`AEM_${name}_PASSWORD`]: 'admin',
+    });
+  }
+  process.env.MCP_CLIENTS_FILE = await clientsFile([
+    { name: 'alice', token: ALICE, environments: ['dev'] },
+    { name: 'bob', token: BOB },
+  ]);
+  server = await startHttpServer();
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  await rm(directory, { recursive: true, force: true });
+});
+
+interface RpcResponse {
+  status: number;
+  sessionId: string | null;
+  message: Record<string, any>;
+}
+
+let nextId = 1;
+
+async function rpc(headers: Record<string, string>, method: string, params: unknown = {}, sessionId?: string): Promise<RpcResponse> {
+  const response = await fetch(MCP_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+      ...headers,
+    },
+    body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params }),
+  });
+  // Results come as a server-sent event, errors of the server itself as JSON
+  const text = await response.text();
+  const data = text.split('\n').filter((line) => line.startsWith('data: ')).at(-1)?.slice(6) ?? text;
+  return { status: response.status, sessionId: response.headers.get('mcp-session-id'), message: JSON.parse(data) };
+}
+
+const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+async function initialize(headers: Record<string, string>): Promise<string> {
+  const response = await rpc(headers, 'initialize', {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' },
+  });
+  assert.equal(response.status, 200);
+  assert.ok(response.sessionId);
+  return response.sessionId;
+}
+
+test('refuses requests without a known client token', async () => {
+  const missing = await fetch(MCP_URL, { method: 'POST', body: '{}' });
+  assert.equal(missing.status, 401);
+  assert.equal(missing.headers.get('www-authenticate'), 'Bearer realm="aem-mcp"');
+
+  const unknown = await rpc(bearer('not-a-client-token-000'), 'tools/list');
+  assert.equal(unknown.status, 401);
+  assert.match(unknown.message.error.message, /invalid client token/);
+});
+
+test('accepts the token as a bearer token or an API key', async () => {
+  await initialize(bearer(ALICE));
+  await initialize({ 'X-API-Key': BOB });
+});
+
+test('sessions only serve the client that opened them', async () => {
+  const session = await initialize(bearer(ALICE));
+
+  const own = await rpc(bearer(ALICE), 'tools/list', {}, session);
+  assert.equal(own.status, 200);
+  assert.ok(own.message.result.tools.length > 0);
+
+  const other = await rpc(bearer(BOB), 'tools/list', {}, session);
+  assert.equal(other.status, 403);
+  assert.match(other.message.error.message, /belongs to another client/);
+
+  const unknown = await rpc(bearer(ALICE), 'tools/list', {}, 'no-such-session');
+  assert.equal(unknown.status, 404);
+
+  const sessionless = await rpc(bearer(ALICE), 'tools/list');
+  assert.equal(sessionless.status, 400);
+});
+
+test('clients only reach their own profiles', async () => {
+  const session = await initialize(bearer(ALICE));
+
+  const listed = await rpc(bearer(ALICE), 'tools/call', { name: 'aem_list_environments', arguments: {} }, session);
+  const environments = JSON.parse(listed.message.result.content[0].text) as Array<{ name: string }>;
+  assert.deepEqual(environments.map((env) => env.name), ['dev']);
+
+  const refused = await rpc(bearer(ALICE), 'tools/call', {
+    name: 'aem_get_page',
+    arguments: { page_path: '/content/mysite/en', environment: 'prod' },
+  }, session);
+  assert.equal(refused.message.result.isError, true);
+  assert.match(refused.message.result.content[0].text, /"prod" is not available to client "alice"/);
+});
+
+test('refuses client lists that reuse a token', async () => {
+  const valid = process.env.MCP_CLIENTS_FILE;
+  process.env.MCP_CLIENTS_FILE = await clientsFile([
+    { name: 'alice', token: ALICE },
+    { name: 'carol', token: ALICE },
+  ]);
+  try {
+    await assert.rejects(startHttpServer(), /"carol" reuses the token of another client/);
+  } finally {
+    process.env.MCP_CLIENTS_FILE = valid;
+  }
+});
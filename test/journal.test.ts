@@ -0,0 +1,187 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runAsClient } from '../src/environments.js';
+import { getNodeSnapshot, type NodeSnapshot } from '../src/aem-client.js';
+import { queryJournal, readJournal, undoMutations, type JournalEntry } from '../src/journal.js';
+import { aem, useFakeAem, writes, type Node } from './fake-aem.js';
+
+const PAGE = '/content/mysite/en/home/jcr:content';
+
+let directory: string;
+
+function entry(id: string, snapshots: Array<{ path: string; before: NodeSnapshot; after: NodeSnapshot }>, extra: Partial<JournalEntry> = {}): JournalEntry {
+  return {
+    id,
+    timestamp: new Date().toISOString(),
+    environment: 'default',
+    user: 'admin',
+    tool: 'aem_update_page',
+    arguments: {},
+    snapshots,
+    undo: { kind: 'restore' },
+    ...extra,
+  };
+}
+
+async function writeJournal(...entries: JournalEntry[]): Promise<void> {
+  await writeFile(process.env.AEM_JOURNAL_PATH!, entries.map((item) => `${JSON.stringify(item)}\n`).join(''), 'utf-8');
+}
+
+useFakeAem();
+
+before(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'aem-journal-'));
+  process.env.AEM_JOURNAL_PATH = join(directory, 'journal.jsonl');
+});
+
+after(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+const original: Node = {
+  'jcr:primaryType': 'cq:PageContent',
+  'jcr:uuid': '0b5d',
+  'jcr:title': 'Home',
+  hideInNav: true,
+};
+
+const edited: Node = {
+  'jcr:primaryType': 'cq:PageContent',
+  'jcr:uuid': '0b5d',
+  'jcr:title': 'Start',
+  subtitle: 'Welcome',
+  hero: { 'jcr:primaryType': 'nt:unstructured' },
+};
+
+test('restores changed properties and removes added child nodes', async () => {
+  aem.repository[PAGE] = edited;
+  await writeJournal(entry('e1', [{
+    path: PAGE,
+    before: { path: PAGE, exists: true, content: original },
+    after: { path: PAGE, exists: true, content: edited },
+  }]));
+
+  const result = await undoMutations(1) as { results: Array<{ status: string; details: unknown }> };
+  assert.deepEqual(result.results.map((item) => [item.status, item.details]), [['undone', { [PAGE]: 'restored' }]]);
+
+  assert.deepEqual(writes().map((post) => post.path), [PAGE, PAGE]);
+  assert.deepEqual([...writes()[0].form], [
+    ['./jcr:title', 'Home'],
+    ['./hideInNav', 'true'],
+    ['./hideInNav@TypeHint', 'Boolean'],
+    ['./subtitle@Delete', ''],
+    ['_charset_', 'utf-8'],
+  ]);
+  assert.deepEqual([...writes()[1].form], [[':operation', 'delete'], [':applyTo', `${PAGE}/hero`], ['_charset_', 'utf-8']]);
+
+  // The undo is journaled itself, and the entry is not undone twice
+  const journal = await readJournal();
+  assert.equal(journal.at(-1)?.tool, 'aem_undo');
+  assert.equal(journal.at(-1)?.undoes, 'e1');
+  assert.deepEqual((await undoMutations(1) as { results: unknown[] }).results, []);
+});
+
+test('deletes created nodes and recreates deleted ones without protected properties', async () => {
+  const created = `${PAGE}/root/teaser`;
+  aem.repository[created] = { 'jcr:primaryType': 'nt:unstructured' };
+  await writeJournal(
+    entry('e1', [{ path: PAGE, before: { path: PAGE, exists: true, content: original }, after: { path: PAGE, exists: false } }]),
+    entry('e2', [{ path: created, before: { path: created, exists: false }, after: { path: created, exists: true, content: aem.repository[created] } }])
+  );
+
+  const result = await undoMutations(2) as { results: Array<{ id: string; details: unknown }> };
+  assert.deepEqual(result.results.map((item) => [item.id, item.details]), [
+    ['e2', { [created]: 'deleted' }],
+    ['e1', { [PAGE]: 'recreated' }],
+  ]);
+
+  assert.deepEqual(writes().map((post) => [post.path, post.form.get(':operation')]), [
+    [created, 'delete'],
+    ['/content/mysite/en/home', 'import'],
+  ]);
+  assert.equal(writes()[1].form.get(':name'), 'jcr:content');
+  assert.deepEqual(JSON.parse(writes()[1].form.get(':content')!), {
+    'jcr:primaryType': 'cq:PageContent',
+    'jcr:title': 'Home',
+    hideInNav: true,
+  });
+});
+
+test('refuses to overwrite newer changes unless forced', async () => {
+  aem.repository[PAGE] = { ...edited, 'jcr:title': 'Changed again' };
+  await writeJournal(entry('e1', [{
+    path: PAGE,
+    before: { path: PAGE, exists: true, content: original },
+    after: { path: PAGE, exists: true, content: edited },
+  }]));
+
+  const refused = await undoMutations(1) as { results: Array<{ status: string; error?: string }> };
+  assert.equal(refused.results[0].status, 'failed');
+  assert.match(refused.results[0].error!, /has changed since aem_update_page ran/);
+  assert.equal(writes().length, 0);
+
+  const forced = await undoMutations(1, { force: true }) as { results: Array<{ status: string }> };
+  assert.equal(forced.results[0].status, 'undone');
+  assert.equal(writes()[0].form.get('./jcr:title'), 'Home');
+});
+
+test('stops at the first entry that cannot be undone', async () => {
+  await writeJournal(
+    entry('e1', [{ path: PAGE, before: { path: PAGE, exists: false }, after: { path: PAGE, exists: false } }]),
+    entry('e2', [], { tool: 'aem_start_workflow', undo: undefined })
+  );
+  const result = await undoMutations(2) as { results: Array<{ id: string; status: string }> };
+  assert.deepEqual(result.results.map((item) => [item.id, item.status]), [['e2', 'not undoable']]);
+});
+
+test('dry runs list the paths that would be restored', async () => {
+  await writeJournal(entry('e1', [{
+    path: PAGE,
+    before: { path: PAGE, exists: true, content: original },
+    after: { path: PAGE, exists: true, content: edited },
+  }]));
+  const result = await undoMutations(1, { dryRun: true }) as { dryRun: boolean; results: Array<{ status: string; details: unknown }> };
+  assert.equal(result.dryRun, true);
+  assert.deepEqual(result.results.map((item) => [item.status, item.details]), [['would undo', [PAGE]]]);
+  assert.equal(writes().length, 0);
+});
+
+test('crawls trees that are too large for .infinity.json', async () => {
+  // A chain nine levels deep with three leaves per level
+  const deep: Node = { 'jcr:primaryType': 'nt:unstructured' };
+  let level = deep;
+  for (let i = 0; i < 9; i++) {
+    for (let leaf = 0; leaf < 3; leaf++) level[`leaf${leaf}`] = { 'jcr:primaryType': 'nt:unstructured', index: leaf };
+    level = level.next = { 'jcr:primaryType': 'nt:unstructured', depth: i + 1 };
+  }
+  aem.repository[PAGE] = deep;
+
+  assert.deepEqual(await getNodeSnapshot(PAGE), { path: PAGE, exists: true, content: deep });
+});
+
+test('incomplete snapshots are not restored', async () => {
+  aem.repository[PAGE] = edited;
+  await writeJournal(entry('e1', [{
+    path: PAGE,
+    before: { path: PAGE, exists: true, truncated: true },
+    after: { path: PAGE, exists: true, content: edited },
+  }]));
+  const result = await undoMutations(1, { force: true }) as { results: Array<{ status: string; error?: string }> };
+  assert.equal(result.results[0].status, 'failed');
+  assert.match(result.results[0].error!, /snapshot is incomplete/);
+  assert.equal(writes().length, 0);
+});
+
+test('HTTP clients only see and undo their own entries', async () => {
+  const noop = [{ path: PAGE, before: { path: PAGE, exists: false }, after: { path: PAGE, exists: false } }];
+  await writeJournal(entry('alice-1', noop, { client: 'alice' }), entry('bob-1', noop, { client: 'bob' }));
+
+  const seen = await runAsClient({ name: 'alice' }, () => queryJournal()) as Array<{ id: string }>;
+  assert.deepEqual(seen.map((item) => item.id), ['alice-1']);
+
+  const result = await runAsClient({ name: 'alice' }, () => undoMutations(5)) as { results: Array<{ id: string }> };
+  assert.deepEqual(result.results.map((item) => item.id), ['alice-1']);
+});
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildQueryParams } from '../src/aem-client.js';
+
+test('wraps top-level predicates in a group', () => {
+  const params = buildQueryParams({
+    path: '/content/mysite',
+    type: 'cq:Page',
+    fulltext: 'summer',
+    property: [{ property: 'jcr:content/cq:template', value: '/conf/mysite/templates/article' }],
+  });
+  assert.deepEqual(params, {
+    path: '/content/mysite',
+    type: 'cq:Page',
+    limit: undefined,
+    offset: undefined,
+    'group.1_fulltext': 'summer',
+    'group.2_property': 'jcr:content/cq:template',
+    'group.2_property.value': '/conf/mysite/templates/article',
+  });
+});
+
+test('numbers multiple property values and keeps non-default operations', () => {
+  const params = buildQueryParams({
+    property: [
+      { property: 'jcr:content/cq:tags', value: ['mysite:a', 'mysite:b'], and: true },
+      { property: 'jcr:content/hideInNav', operation: 'exists' },
+      { property: 'jcr:content/jcr:title', value: 'Home', operation: 'equals' },
+    ],
+  });
+  assert.equal(params['group.1_property.1_value'], 'mysite:a');
+  assert.equal(params['group.1_property.2_value'], 'mysite:b');
+  assert.equal(params['group.1_property.and'], 'true');
+  assert.equal(params['group.2_property.operation'], 'exists');
+  assert.equal(params['group.2_property.value'], undefined);
+  assert.equal(params['group.3_property.value'], 'Home');
+  assert.equal(params['group.3_property.operation'], undefined);
+});
+
+test('compiles date ranges, tags and node names', () => {
+  const params = buildQueryParams({
+    daterange: [{ property: 'jcr:content/cq:lastModified', lowerBound: '2024-01-01', lowerOperation: '>=' }],
+    relativedaterange: [{ property: 'jcr:content/jcr:created', lowerBound: '-7d' }],
+    tagid: [{ tagId: 'mysite:news' }],
+    nodename: ['*.pdf'],
+  });
+  assert.deepEqual(
+    Object.fromEntries(Object.entries(params).filter(([key]) => key.startsWith('group.'))),
+    {
+      'group.1_daterange.property': 'jcr:content/cq:lastModified',
+      'group.1_daterange.lowerBound': '2024-01-01',
+      'group.1_daterange.lowerOperation': '>=',
+      'group.2_relativedaterange.property': 'jcr:content/jcr:created',
+      'group.2_relativedaterange.lowerBound': '-7d',
+      'group.3_tagid': 'mysite:news',
+      'group.3_tagid.property': 'jcr:content/cq:tags',
+      'group.4_nodename': '*.pdf',
+    }
+  );
+});
+
+test('nests OR and NOT groups', () => {
+  const params = buildQueryParams({
+    or: true,
+    groups: [
+      { fulltext: 'summer' },
+      { not: true, property: [{ property: 'jcr:content/hideInSearch', value: 'true' }] },
+    ],
+  });
+  assert.equal(params['group.p.or'], 'true');
+  assert.equal(params['group.1_group.1_fulltext'], 'summer');
+  assert.equal(params['group.2_group.p.not'], 'true');
+  assert.equal(params['group.2_group.1_property'], 'jcr:content/hideInSearch');
+  assert.equal(params['group.2_group.1_property.value'], 'true');
+});
+
+test('maps ordering, selective hits and guessed totals', () => {
+  const params = buildQueryParams({
+    orderby: '@jcr:content/cq:lastModified',
+    sort: 'desc',
+    properties: ['jcr:path', 'jcr:content/jcr:title'],
+    guessTotal: 100,
+  });
+  assert.equal(params.orderby, '@jcr:content/cq:lastModified');
+  assert.equal(params['orderby.sort'], 'desc');
+  assert.equal(params['p.hits'], 'selective');
+  assert.equal(params['p.properties'], 'jcr:path jcr:content/jcr:title');
+  assert.equal(params['p.guessTotal'], '100');
+  assert.equal(buildQueryParams({ guessTotal: false })['p.guessTotal'], undefined);
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyBudget, htmlToMarkdown, shapeNode, summarizePage } from '../src/shaping.js';
+
+const page = {
+  'jcr:primaryType': 'cq:Page',
+  'jcr:createdBy': 'admin',
+  'jcr:content': {
+    'jcr:primaryType': 'cq:PageContent',
+    'jcr:title': 'Home',
+    'cq:template': '/conf/mysite/settings/wcm/templates/page',
+    'cq:tags': ['mysite:news'],
+    'cq:lastReplicated_publish': 'Tue Mar 05 2024 10:15:30 GMT+0100',
+    'rep:policy': { 'jcr:primaryType': 'rep:ACL' },
+    root: {
+      'jcr:primaryType': 'nt:unstructured',
+      'sling:resourceType': 'mysite/components/container',
+      title: {
+        'jcr:primaryType': 'nt:unstructured',
+        'sling:resourceType': 'mysite/components/title',
+        'jcr:title': 'Welcome',
+      },
+      text: {
+        'jcr:primaryType': 'nt:unstructured',
+        'sling:resourceType': 'mysite/components/text',
+        text: '<p>Hello <b>world</b></p>',
+        textIsRich: 'true',
+      },
+      image: {
+        'jcr:primaryType': 'nt:unstructured',
+        'sling:resourceType': 'mysite/components/image',
+        fileReference: '/content/dam/mysite/hero.jpg',
+        alt: 'Hero',
+      },
+    },
+  },
+  about: { 'jcr:primaryType': 'cq:Page' },
+  'not-a-page': { 'jcr:primaryType': 'nt:unstructured' },
+};
+
+test('strips repository bookkeeping and default node types', () => {
+  const shaped = shapeNode(page, {}, '/content/mysite/en') as Record<string, Record<string, unknown>>;
+  assert.equal(shaped['jcr:createdBy'], undefined);
+  assert.equal(shaped['jcr:content']['cq:lastReplicated_publish'], undefined);
+  assert.equal(shaped['jcr:content']['rep:policy'], undefined);
+  assert.equal(shaped['jcr:content']['jcr:primaryType'], 'cq:PageContent');
+  assert.deepEqual((shaped['jcr:content'].root as Record<string, unknown>).title, {
+    'sling:resourceType': 'mysite/components/title',
+    'jcr:title': 'Welcome',
+  });
+
+  const kept = shapeNode(page, { keepSystemProperties: true }) as Record<string, unknown>;
+  assert.equal(kept['jcr:createdBy'], 'admin');
+});
+
+test('replaces child nodes below the depth limit with a pointer', () => {
+  const shaped = shapeNode(page, { depth: 1 }, '/content/mysite/en') as Record<string, Record<string, unknown>>;
+  assert.equal(shaped['jcr:content']['jcr:title'], 'Home');
+  assert.equal(shaped['jcr:content'].root, '(child node omitted — read /content/mysite/en/jcr:content/root or raise depth)');
+});
+
+test('filters properties with include and exclude patterns', () => {
+  const shaped = shapeNode(page['jcr:content'], { include: ['jcr:*'], exclude: ['image'] }) as Record<string, unknown>;
+  assert.deepEqual(Object.keys(shaped), ['jcr:primaryType', 'jcr:title', 'root']);
+  assert.deepEqual(Object.keys(shaped.root as Record<string, unknown>), ['title', 'text']);
+  assert.deepEqual((shaped.root as Record<string, Record<string, unknown>>).title, { 'jcr:title': 'Welcome' });
+});
+
+test('summarizes a page into its properties, components and child pages', () => {
+  assert.deepEqual(summarizePage('/content/mysite/en', page), {
+    path: '/content/mysite/en',
+    title: 'Home',
+    description: undefined,
+    template: '/conf/mysite/settings/wcm/templates/page',
+    lastModified: undefined,
+    tags: ['mysite:news'],
+    components: [
+      { path: 'root', resourceType: 'mysite/components/container' },
+      { path: 'root/title', resourceType: 'mysite/components/title', title: 'Welcome' },
+      { path: 'root/text', resourceType: 'mysite/components/text', text: 'Hello **world**' },
+      { path: 'root/image', resourceType: 'mysite/components/image', title: 'Hero', image: '/content/dam/mysite/hero.jpg' },
+    ],
+    childPages: ['/content/mysite/en/about'],
+  });
+});
+
+test('converts rich text to Markdown', () => {
+  assert.equal(
+    htmlToMarkdown('<h2>Offers</h2><p>See <a href="/content/mysite/en/offers.html">all <em>offers</em></a>&nbsp;&amp; more.</p><ul><li>One</li><li>Two</li></ul>'),
+    '### Offers\nSee [all _offers_](/content/mysite/en/offers.html) & more.\n\n- One\n- Two'
+  );
+  assert.equal(htmlToMarkdown('<p>a &lt; b</p>\n\n\n\n<p>c</p>'), 'a < b\n\nc');
+});
+
+test('cuts text to the budget with a hint', () => {
+  assert.equal(applyBudget('short', 10), 'short');
+  assert.equal(
+    applyBudget('0123456789abcdef', 10, 'Read a child node instead.'),
+    '0123456789\n\n[Truncated: showing 10 of 16 characters. Read a child node instead.]'
+  );
+  assert.match(applyBudget('0123456789abcdef', 10), /raise max_chars/);
+});
@@ -0,0 +1,107 @@
+import { after, before, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { readJournal } from '../src/journal.js';
+import { aem, useFakeAem, writes } from './fake-aem.js';
+import { callTool, connectClient } from './fixtures.js';
+
+// What mutating tools record in the journal, and whether it can be undone
+useFakeAem();
+
+let directory: string;
+let client: Client;
+
+before(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'aem-tool-journal-'));
+  process.env.AEM_JOURNAL_PATH = join(directory, 'journal.jsonl');
+  client = await connectClient();
+});
+
+after(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  await writeFile(process.env.AEM_JOURNAL_PATH!, '', 'utf-8');
+});
+
+const page = () => ({ 'jcr:primaryType': 'cq:Page', 'jcr:content': { 'jcr:primaryType': 'cq:PageContent' } });
+
+test('language copies snapshot their target pages', async () => {
+  aem.repository['/content/mysite'] = { 'jcr:primaryType': 'cq:Page', en: { ...page(), about: page() }, de: page(), fr: page() };
+
+  const result = await callTool(client, 'aem_create_language_copies', { source_path: '/content/mysite/en/about', target_languages: ['de', 'fr'] });
+  assert.equal(result.isError, undefined);
+
+  const [entry] = await readJournal();
+  assert.deepEqual(entry.snapshots.map((pair) => [pair.path, pair.before.exists]), [
+    ['/content/mysite/de/about', false],
+    ['/content/mysite/fr/about', false],
+  ]);
+  assert.deepEqual(entry.undo, { kind: 'restore' });
+});
+
+test('asset deletes are journaled without an undo', async () => {
+  const asset = '/content/dam/mysite/hero.png';
+  aem.repository[asset] = { 'jcr:primaryType': 'dam:Asset', 'jcr:content': { renditions: { original: {} } } };
+
+  const result = await callTool(client, 'aem_delete_asset', { asset_path: asset });
+  assert.equal(result.isError, undefined);
+
+  const [entry] = await readJournal();
+  assert.equal(entry.tool, 'aem_delete_asset');
+  assert.equal(entry.snapshots.length, 0);
+  assert.equal(entry.undo, undefined);
+});
+
+test('component moves are undone by restoring the order of the container', async () => {
+  const container = '/content/mysite/en/home/jcr:content/root/container';
+  const component = () => ({ 'jcr:primaryType': 'nt:unstructured' });
+  aem.repository[container] = { 'jcr:primaryType': 'nt:unstructured', title: component(), text: component(), image: component() };
+  aem.handlers.push((method, path) => {
+    if (method === 'POST' && path === `${container}/image` && aem.requests.at(-1)?.form.get(':order') === 'first') {
+      const { image, ...rest } = aem.repository[container];
+      aem.repository[container] = { image, ...rest };
+    }
+    return undefined;
+  });
+
+  const moved = await callTool(client, 'aem_move_component', { component_path: `${container}/image`, position: 'first' });
+  assert.equal(moved.isError, undefined);
+  const [entry] = await readJournal();
+  assert.deepEqual(entry.snapshots.map((pair) => pair.path), [container]);
+  assert.deepEqual(entry.undo, { kind: 'restore' });
+
+  aem.requests = [];
+  const undone = await callTool(client, 'aem_undo', {});
+  assert.equal(undone.isError, undefined);
+  assert.deepEqual(writes().map((request) => [request.path, request.form.get(':order')]), [
+    [`${container}/title`, 'last'],
+    [`${container}/text`, 'last'],
+    [`${container}/image`, 'last'],
+  ]);
+});
+
+test('inheritance changes are undone by restoring the live copy node', async () => {
+  const component = '/content/mysite/de/home/jcr:content/root/text';
+  aem.repository[component] = { 'jcr:primaryType': 'nt:unstructured', text: 'Hallo' };
+  aem.handlers.push((method, path) => {
+    if (method === 'POST' && path === component && aem.requests.at(-1)?.form.get('cq:isCancelledForChildren') === 'true') {
+      Object.assign(aem.repository[component], { 'jcr:mixinTypes': ['cq:LiveSyncCancelled'], 'cq:isCancelledForChildren': true });
+    }
+    return undefined;
+  });
+
+  const cancelled = await callTool(client, 'aem_set_inheritance', { path: component, action: 'cancel' });
+  assert.equal(cancelled.isError, undefined);
+  const [entry] = await readJournal();
+  assert.deepEqual(entry.snapshots.map((pair) => pair.path), [component]);
+
+  aem.requests = [];
+  const undone = await callTool(client, 'aem_undo', {});
+  assert.equal(undone.isError, undefined);
+  assert.deepEqual([...writes()[0].form.keys()], ['./jcr:mixinTypes@Delete', './cq:isCancelledForChildren@Delete', '_charset_']);
+});
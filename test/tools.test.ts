@@ -0,0 +1,182 @@
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { aem, useFakeAem, writes } from './fake-aem.js';
+import { callTool, connectClient } from './fixtures.js';
+
+// Path rules as a locked-down profile would set them
+useFakeAem({
+  AEM_ALLOWED_PATHS: '/content/mysite,/content/dam/mysite,/conf/mysite',
+  AEM_DENIED_PATHS_DELETE: '/content/mysite/en',
+  AEM_DENIED_PATHS_WRITE: '/content/mysite/fr',
+  AEM_DENIED_PATHS_PUBLISH: '/content/mysite/de',
+  AEM_CONFIRM_DESTRUCTIVE: 'true',
+  AEM_JOURNAL: 'false',
+  AEM_JOURNAL_PATH: '/nonexistent/aem-journal.jsonl',
+});
+
+const INSTANCE = '/var/workflow/instances/server0/2024-03-05/request_for_activation_1';
+
+let client: Client;
+
+before(async () => {
+  client = await connectClient();
+});
+
+function workflowOn(payload: string): void {
+  aem.repository[INSTANCE] = {
+    modelId: '/var/workflow/models/request_for_activation',
+    status: 'RUNNING',
+    data: { payload: { path: payload } },
+    workItems: { item1: { 'jcr:primaryType': 'nt:unstructured' } },
+  };
+}
+
+const refused: Array<[string, Record<string, unknown>]> = [
+  ['aem_create_page', { parent_path: '/content/other', page_name: 'new', template: '/conf/other/templates/page', title: 'New' }],
+  ['aem_update_page', { page_path: '/content/other/home', properties: { 'jcr:title': 'Home' } }],
+  ['aem_delete_page', { page_path: '/content/mysite/en/home' }],
+  ['aem_replicate_page', { page_path: '/content/other/home', action: 'Activate' }],
+  ['aem_update_component', { component_path: '/content/other/home/jcr:content/root/text', properties: { text: 'Hi' } }],
+  ['aem_upload_asset', { folder_path: '/content/dam/other', file_path: 'hero.jpg' }],
+  ['aem_start_workflow', { model_id: '/var/workflow/models/request_for_activation', payloads: ['/content/other/home'] }],
+  ['aem_create_tag', { tag_id: 'other:topic', title: 'Topic' }],
+  ['aem_install_package', { package_path: '/etc/packages/my_packages/site.zip' }],
+  ['aem_create_persisted_query', { query_path: 'other/all-articles', query: '{ articleList { items { _path } } }' }],
+  ['aem_update_persisted_query', { query_path: 'other/all-articles', query: '{ articleList { items { _path } } }' }],
+];
+
+for (const [tool, args] of refused) {
+  test(`${tool} is refused outside the path rules`, async () => {
+    const result = await callTool(client, tool, args);
+    assert.equal(result.isError, true);
+    assert.match(result.text, /is not allowed on|is denied on/);
+    assert.equal(writes().length, 0);
+  });
+}
+
+const workflowTools: Array<[string, Record<string, unknown>]> = [
+  ['aem_terminate_workflow', { instance_id: INSTANCE }],
+  ['aem_retry_workflow', { instance_id: INSTANCE }],
+  ['aem_complete_work_item', { work_item: `${INSTANCE}/workItems/item1`, route_id: 'route1' }],
+  ['aem_delegate_work_item', { work_item: `${INSTANCE}/workItems/item1`, delegatee: 'editors' }],
+];
+
+for (const [tool, args] of workflowTools) {
+  test(`${tool} is checked against the workflow payload`, async () => {
+    workflowOn('/content/other/home');
+    const result = await callTool(client, tool, args);
+    assert.equal(result.isError, true);
+    assert.match(result.text, /workflow is not allowed on \/content\/other\/home/);
+    assert.equal(writes().length, 0);
+  });
+}
+
+test('workflow tools on allowed payloads run, and retries need confirmation', async () => {
+  workflowOn('/content/mysite/en/home');
+
+  const completed = await callTool(client, 'aem_complete_work_item', { work_item: `${INSTANCE}/workItems/item1`, route_id: 'route1' });
+  assert.equal(completed.isError, undefined);
+  assert.deepEqual(writes().map((request) => request.path), ['/bin/workflow/inbox']);
+
+  const retry = await callTool(client, 'aem_retry_workflow', { instance_id: INSTANCE });
+  assert.equal(JSON.parse(retry.text).confirmationRequired, true);
+  assert.equal(writes().length, 1);
+});
+
+test('persisted queries are checked against their node under /conf', async () => {
+  const result = await callTool(client, 'aem_create_persisted_query', {
+    query_path: 'mysite/all-articles',
+    query: '{ articleList { items { _path } } }',
+  });
+  assert.equal(result.isError, undefined);
+  assert.deepEqual(writes().map((request) => [request.method, request.path]), [['PUT', '/graphql/persist.json/mysite/all-articles']]);
+});
+
+test('calls that name no path are refused under an allowlist', async () => {
+  // An empty journal leaves aem_undo nothing to check
+  const result = await callTool(client, 'aem_undo', {});
+  assert.equal(result.isError, true);
+  assert.match(result.text, /does not name the paths it changes/);
+});
+
+test('rollouts without targets are checked against every live copy', async () => {
+  const blueprint = '/content/mysite/language-masters/en/home';
+  aem.repository[blueprint] = { 'jcr:content': { 'jcr:primaryType': 'cq:PageContent' } };
+  aem.handlers.push((method, path) => path === '/bin/querybuilder.json'
+    ? Response.json({
+      hits: ['de', 'fr'].map((language) => ({
+        'jcr:path': `/content/mysite/${language}/jcr:content/cq:LiveSyncConfig`,
+        'cq:master': '/content/mysite/language-masters/en',
+        'cq:isDeep': true,
+      })),
+    })
+    : undefined);
+
+  const result = await callTool(client, 'aem_rollout', { blueprint_path: blueprint });
+  assert.equal(result.isError, true);
+  assert.match(result.text, /write is denied on \/content\/mysite\/fr\/home/);
+  assert.equal(writes().length, 0);
+
+  const explicit = await callTool(client, 'aem_rollout', { blueprint_path: blueprint, target_paths: ['/content/mysite/de/home'] });
+  assert.deepEqual(JSON.parse(explicit.text).paths, [blueprint, '/content/mysite/de/home']);
+});
+
+test('language copies are checked against their target pages', async () => {
+  const page = () => ({ 'jcr:primaryType': 'cq:Page', 'jcr:content': { 'jcr:primaryType': 'cq:PageContent' } });
+  aem.repository['/content/mysite'] = { 'jcr:primaryType': 'cq:Page', en: { ...page(), about: page() }, de: page(), fr: page() };
+
+  const refusedCopy = await callTool(client, 'aem_create_language_copies', { source_path: '/content/mysite/en/about', target_languages: ['de', 'fr'] });
+  assert.equal(refusedCopy.isError, true);
+  assert.match(refusedCopy.text, /write is denied on \/content\/mysite\/fr\/about/);
+  assert.equal(writes().length, 0);
+
+  const copied = await callTool(client, 'aem_create_language_copies', { source_path: '/content/mysite/en/about', target_languages: ['de'] });
+  assert.equal(copied.isError, undefined);
+  assert.deepEqual(writes().map((request) => [request.path, request.form.get('destParentPath'), request.form.get('destName')]), [
+    ['/bin/wcmcommand', '/content/mysite/de', 'about'],
+  ]);
+});
+
+test('moves that republish references are confirmed and checked against the publish rules', async () => {
+  let referencing = ['/content/mysite/en/links', '/content/mysite/de/links'];
+  aem.handlers.push((method, path) => path === '/libs/wcm/core/content/reference.json'
+    ? Response.json({ pages: referencing.map((page) => ({ path: page, references: ['/content/mysite/en/old'] })) })
+    : undefined);
+  aem.handlers.push((method, path) => path === '/bin/querybuilder.json' ? Response.json({ hits: [] }) : undefined);
+  const args = { page_path: '/content/mysite/en/old', dest_parent_path: '/content/mysite/en/archive', republish_references: true };
+
+  const preview = JSON.parse((await callTool(client, 'aem_move_page', args)).text);
+  assert.equal(preview.confirmationRequired, true);
+  assert.deepEqual(preview.preview.referencingPages.map((page: { path: string }) => page.path), referencing);
+
+  const refusedMove = await callTool(client, 'aem_move_page', { ...args, confirm_token: preview.confirmToken });
+  assert.equal(refusedMove.isError, true);
+  assert.match(refusedMove.text, /publish is denied on \/content\/mysite\/de\/links/);
+  assert.equal(writes().length, 0);
+
+  referencing = ['/content/mysite/en/links'];
+  const { confirmToken } = JSON.parse((await callTool(client, 'aem_move_page', args)).text);
+  const moved = await callTool(client, 'aem_move_page', { ...args, confirm_token: confirmToken });
+  assert.equal(moved.isError, undefined);
+  assert.deepEqual(writes().map((request) => [request.path, request.form.getAll('publish')]), [
+    ['/bin/wcmcommand', ['/content/mysite/en/links']],
+  ]);
+});
+
+test('replication confirmations and results both fit the output schema', async () => {
+  aem.repository['/content/mysite/en/home'] = {
+    'jcr:primaryType': 'cq:Page',
+    'jcr:content': { 'cq:lastReplicationAction': 'Deactivate', 'cq:lastReplicated': 'Tue Mar 05 2024 10:15:30 GMT+0100' },
+  };
+  const args = { page_path: '/content/mysite/en/home', action: 'Deactivate' };
+
+  const preview = await callTool(client, 'aem_replicate_page', args);
+  assert.equal(preview.isError, undefined);
+  const confirmation = preview.structuredContent as { confirmationRequired: boolean; confirmToken: string };
+  assert.equal(confirmation.confirmationRequired, true);
+
+  const result = await callTool(client, 'aem_replicate_page', { ...args, confirm_token: confirmation.confirmToken });
+  assert.equal(result.isError, undefined);
+  assert.deepEqual(result.structuredContent, { path: '/content/mysite/en/home', action: 'Deactivate', success: true, verified: true });
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTranslationProject } from '../src/aem-client.js';
+import { aem, useFakeAem, writes } from './fake-aem.js';
+
+useFakeAem();
+
+const options = {
+  title: 'Spring campaign',
+  sourceLanguage: 'en',
+  targetLanguage: 'de',
+  pages: ['/content/mysite/en/spring'],
+};
+
+function projectCreate(response: () => Response): void {
+  aem.handlers.push((method, path) => method === 'POST' && path === '/content/projects' ? response() : undefined);
+}
+
+test('reads the new project path from the Sling POST response', async () => {
+  projectCreate(() => new Response(
+    '<html><body><div id="Status">201</div><div id="Path">/content/projects/spring-campaign-1</div></body></html>',
+    { status: 201, headers: { 'Content-Type': 'text/html' } }
+  ));
+
+  const result = await createTranslationProject(options) as { projectPath: string };
+  assert.equal(result.projectPath, '/content/projects/spring-campaign-1');
+  assert.deepEqual(writes().map((request) => request.path), [
+    '/content/projects',
+    '/content/projects/spring-campaign-1/jcr:content/dashboard/gadgets/translationjob',
+  ]);
+});
+
+test('prefers the Location header and accepts JSON bodies', async () => {
+  projectCreate(() => new Response('', { status: 201, headers: { Location: 'http://aem.test/content/projects/spring.html' } }));
+  assert.equal((await createTranslationProject(options) as { projectPath: string }).projectPath, '/content/projects/spring');
+
+  aem.handlers = [];
+  projectCreate(() => Response.json({ path: '/content/projects/spring-2' }));
+  assert.equal((await createTranslationProject(options) as { projectPath: string }).projectPath, '/content/projects/spring-2');
+});
+
+test('fails instead of guessing when AEM does not report the path', async () => {
+  projectCreate(() => new Response('<html><body>Created</body></html>', { status: 201 }));
+
+  await assert.rejects(createTranslationProject(options), /did not report its path/);
+  assert.deepEqual(writes().map((request) => request.path), ['/content/projects']);
+});